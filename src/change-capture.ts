@@ -0,0 +1,180 @@
+// Change capture (LISTEN / NOTIFY)
+
+"use strict";
+
+import { Client } from "pg";
+import { Config } from "./config";
+import { DataSource, DataSourceTable, getTableSQL } from "./source";
+import { escapeIdentifier, escapeLiteral } from "./utils/sql";
+
+const CHANGE_CAPTURE_FUNCTION = "deepint_notify_change";
+const CHANGE_CAPTURE_TRIGGER = "deepint_notify_change";
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Listens for the changes made to the tables with change capture enabled.
+ * Each table has a trigger that notifies any change with pg_notify,
+ * so the changes made by other applications reach Deep Intelligence.
+ */
+export class ChangeCaptureController {
+    public static instance: ChangeCaptureController;
+
+    public static getInstance() {
+        if (ChangeCaptureController.instance) {
+            return ChangeCaptureController.instance;
+        }
+
+        ChangeCaptureController.instance = new ChangeCaptureController();
+
+        return ChangeCaptureController.instance;
+    }
+
+    public tables: DataSourceTable[];
+    public channel: string;
+
+    public client: Client;
+
+    constructor() {
+        this.tables = DataSource.getInstance().tables.filter(t => {
+            return t.captureChanges;
+        });
+        this.channel = Config.getInstance().changeCaptureChannel;
+        this.client = null;
+    }
+
+    /**
+     * Installs (or verifies) the triggers and starts listening for changes
+     */
+    public async start() {
+        if (this.tables.length === 0) {
+            return;
+        }
+
+        if (Config.getInstance().changeCaptureInstallTriggers) {
+            await this.installTriggers();
+        } else {
+            await this.verifyTriggers();
+        }
+
+        this.connect();
+    }
+
+    /**
+     * Gets the SQL sentences to install the change capture trigger of a table
+     * @param table The table
+     * @returns The SQL sentences
+     */
+    public getTriggerSQL(table: DataSourceTable): string[] {
+        return [
+            "CREATE OR REPLACE FUNCTION " + escapeIdentifier(CHANGE_CAPTURE_FUNCTION) + "() RETURNS trigger AS $$ " +
+            "BEGIN PERFORM pg_notify(TG_ARGV[0], TG_TABLE_SCHEMA || '.' || TG_TABLE_NAME); RETURN NULL; END; " +
+            "$$ LANGUAGE plpgsql",
+
+            "DROP TRIGGER IF EXISTS " + escapeIdentifier(CHANGE_CAPTURE_TRIGGER) + " ON " + getTableSQL(table),
+
+            "CREATE TRIGGER " + escapeIdentifier(CHANGE_CAPTURE_TRIGGER) + " AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON " + getTableSQL(table) + " " +
+            "FOR EACH STATEMENT EXECUTE PROCEDURE " + escapeIdentifier(CHANGE_CAPTURE_FUNCTION) + "(" + escapeLiteral(this.channel) + ")",
+        ];
+    }
+
+    private async installTriggers() {
+        for (const table of this.tables) {
+            for (const sentence of this.getTriggerSQL(table)) {
+                await DataSource.getInstance().pool.query(sentence);
+            }
+
+            if (Config.getInstance().logEvents) {
+                console.log(`[${(new Date()).toISOString()}] [CAPTURE] [${table.table}] Change capture trigger installed.`);
+            }
+        }
+    }
+
+    private async verifyTriggers() {
+        for (const table of this.tables) {
+            const results = await DataSource.getInstance().pool.query(
+                "SELECT 1 FROM pg_trigger WHERE tgname = $1 AND tgrelid = to_regclass($2)",
+                [CHANGE_CAPTURE_TRIGGER, getTableSQL(table)],
+            );
+
+            if (results.rows.length === 0) {
+                console.error(`[${(new Date()).toISOString()}] [CAPTURE] [${table.table}] Change capture trigger not found. Install it with:\n` + this.getTriggerSQL(table).join(";\n") + ";");
+            }
+        }
+    }
+
+    /**
+     * Opens the dedicated connection for LISTEN.
+     * The connection is not taken from the pool, since it is kept open.
+     */
+    private connect() {
+        const config = DataSource.getInstance().config;
+
+        const client = new Client({
+            host: config.host,
+            port: config.port || 5432,
+            user: config.user,
+            password: config.password,
+            database: config.database,
+        });
+
+        this.client = client;
+
+        let reconnecting = false;
+
+        const reconnect = (err?: Error) => {
+            if (reconnecting) {
+                return;
+            }
+
+            reconnecting = true;
+
+            if (Config.getInstance().logEvents) {
+                console.log(`[${(new Date()).toISOString()}] [CAPTURE] Connection ${err ? "error: " + err.message : "closed"}.`);
+            }
+
+            client.removeAllListeners();
+            client.on("error", () => {});
+            client.end().catch(() => {});
+
+            setTimeout(this.connect.bind(this), RECONNECT_DELAY);
+        };
+
+        client.on("error", reconnect);
+        client.on("end", reconnect);
+        client.on("notification", this.onNotification.bind(this));
+
+        client.connect().then(() => {
+            return client.query("LISTEN " + escapeIdentifier(this.channel));
+        }).then(() => {
+            if (Config.getInstance().logEvents) {
+                console.log(`[${(new Date()).toISOString()}] [CAPTURE] Listening on channel ${this.channel}`);
+            }
+
+            // Changes could have been made while not listening
+            for (const table of this.tables) {
+                DataSource.getInstance().noticeUpdate(table);
+            }
+        }).catch(reconnect);
+    }
+
+    public onNotification(notification: { channel: string, payload?: string }) {
+        if (notification.channel !== this.channel) {
+            return;
+        }
+
+        if (Config.getInstance().logDebug) {
+            console.log(`[${(new Date()).toISOString()}] [CAPTURE] Change in table ${notification.payload}`);
+        }
+
+        const payload = notification.payload || "";
+
+        for (const table of this.tables) {
+            // The payload is schema.table (or just the table name, for triggers installed by older versions)
+            const matches = table.schema ? (payload === table.schema + "." + table.table) : (payload === table.table || payload.endsWith("." + table.table));
+
+            if (matches) {
+                DataSource.getInstance().noticeUpdate(table);
+            }
+        }
+    }
+}
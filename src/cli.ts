@@ -0,0 +1,125 @@
+// Command line tools
+
+"use strict";
+
+import { Config } from "./config";
+import { autoCreateTable, checkTableMappings, checkTextSearchIndexes, createTextSearchIndexes, proposeTableMapping } from "./schema";
+import { DataSource } from "./source";
+
+const USAGE = `Usage: node dist/cli.js <command> [arguments]
+
+Commands:
+    introspect <table> [schema]    Prints a table mapping proposal for an existing table
+    verify                         Checks the table mappings (TABLE_MAPPING_FILE) against the database
+    migrate                        Creates or migrates the tables with autoCreate, printing the executed DDL
+    fts-index [--check]            Creates the missing full-text search indexes (stored TEXT fields), printing the executed DDL.
+                                   With --check, only reports the missing indexes.
+`;
+
+async function introspect(args: string[]): Promise<number> {
+    if (!args[0]) {
+        process.stderr.write(USAGE);
+        return 1;
+    }
+
+    const proposal = await proposeTableMapping(args[0], args[1]);
+
+    if (!proposal) {
+        process.stderr.write(`Table "${args[0]}" not found.\n`);
+        return 1;
+    }
+
+    for (const column of proposal.skipped) {
+        process.stderr.write(`Skipped column "${column.name}": Unsupported type ${column.dataType}\n`);
+    }
+
+    process.stdout.write(JSON.stringify(proposal.mapping, null, 4) + "\n");
+
+    return 0;
+}
+
+async function verify(): Promise<number> {
+    const problems = await checkTableMappings(DataSource.getInstance().tables);
+
+    for (const problem of problems) {
+        process.stderr.write(problem + "\n");
+    }
+
+    if (problems.length > 0) {
+        return 1;
+    }
+
+    process.stdout.write(`The mappings of ${DataSource.getInstance().tables.length} table(s) match the database.\n`);
+
+    return 0;
+}
+
+async function migrate(): Promise<number> {
+    for (const table of DataSource.getInstance().tables) {
+        if (!table.autoCreate) {
+            continue;
+        }
+
+        for (const sentence of await autoCreateTable(table)) {
+            process.stdout.write(sentence + ";\n");
+        }
+    }
+
+    return 0;
+}
+
+async function ftsIndex(args: string[]): Promise<number> {
+    const check = args[0] === "--check";
+    let missing = 0;
+
+    for (const table of DataSource.getInstance().tables) {
+        if (table.sourceType !== "table" && table.sourceType !== "materialized-view") {
+            continue;
+        }
+
+        if (check) {
+            for (const status of await checkTextSearchIndexes(table)) {
+                if (!status.valid) {
+                    process.stderr.write(`Missing full-text search index "${status.index}" for field "${status.feature.name}" of table "${table.table}".\n`);
+                    missing++;
+                }
+            }
+        } else {
+            for (const sentence of await createTextSearchIndexes(table)) {
+                process.stdout.write(sentence + ";\n");
+            }
+        }
+    }
+
+    return missing > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+    const command = process.argv[2] || "";
+    const args = process.argv.slice(3);
+
+    Config.getInstance();
+
+    switch (command) {
+    case "introspect":
+        return introspect(args);
+    case "verify":
+        return verify();
+    case "migrate":
+        return migrate();
+    case "fts-index":
+        return ftsIndex(args);
+    default:
+        process.stderr.write(USAGE);
+        return 1;
+    }
+}
+
+main().then(code => {
+    process.exitCode = code;
+}).catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+}).finally(() => {
+    DataSource.getInstance().pool.end();
+});
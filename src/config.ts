@@ -6,6 +6,10 @@ import { ObjectSchema } from "@asanrom/javascript-object-sanitizer";
 import dotenv from "dotenv";
 import { readFileSync } from "fs";
 import { FeatureType } from "./utils/deepint-sources";
+import { ExpressionNode, getExpressionFields, parseExpression } from "./utils/expressions";
+import { getPayloadDecoder } from "./utils/payload-decoders";
+import { removeSQLLiterals } from "./utils/text";
+import { FieldRulesConfig, parseFieldRules } from "./utils/validation";
 
 dotenv.config(); // Load env variables
 
@@ -21,31 +25,287 @@ export interface DataSourceConfig {
     database: string;
 }
 
+export type ConflictPolicy = "update" | "ignore";
+
+export type SourceType = "table" | "view" | "materialized-view" | "query";
+
+export interface MQTTBrokerConfig {
+    name: string;
+    url: string;
+
+    clientId?: string;
+    username?: string;
+    password?: string;
+
+    ca?: string;
+    cert?: string;
+    key?: string;
+    rejectUnauthorized?: boolean;
+
+    protocolVersion?: 3 | 4 | 5;
+    clean?: boolean;
+    keepalive?: number;
+}
+
+const MQTTBrokersSchema = ObjectSchema.array(ObjectSchema.object({
+    name: ObjectSchema.string(),
+    url: ObjectSchema.string(),
+    clientId: ObjectSchema.optional(ObjectSchema.string()),
+    username: ObjectSchema.optional(ObjectSchema.string()),
+    password: ObjectSchema.optional(ObjectSchema.string()),
+    ca: ObjectSchema.optional(ObjectSchema.string()),
+    cert: ObjectSchema.optional(ObjectSchema.string()),
+    key: ObjectSchema.optional(ObjectSchema.string()),
+    rejectUnauthorized: ObjectSchema.optional(ObjectSchema.boolean()),
+    protocolVersion: ObjectSchema.optional(ObjectSchema.integer().withEnumeration([3, 4, 5])),
+    clean: ObjectSchema.optional(ObjectSchema.boolean()),
+    keepalive: ObjectSchema.optional(ObjectSchema.integer().withMin(0)),
+}));
+
+export const DEFAULT_MQTT_BROKER = "default";
+
+export interface PayloadFieldMapping {
+    path?: string;
+    rootPath?: string;
+    value?: string | number | boolean;
+    topicSegment?: number;
+    topicCapture?: string;
+}
+
+export interface PayloadMapping {
+    explode?: string;
+    fields?: { [field: string]: PayloadFieldMapping };
+}
+
+export interface ComputedFieldConfig {
+    timestamp?: boolean;
+    topicSegment?: number;
+    topicCapture?: string;
+    expression?: string;
+}
+
 export interface DataSourceTableConfig {
+    schema?: string;
     table: string;
 
+    sourceType?: SourceType;
+    query?: string;
+    refreshInterval?: number;
+
     publicKey: string;
     secretKey: string;
 
-    fields: {
+    fields: ({
         type: FeatureType;
         name: string;
-    }[],
+        sql?: string;
+        computed?: ComputedFieldConfig;
+        language?: string;
+    } & FieldRulesConfig)[],
 
     topic: string,
+    broker?: string,
+    qos?: 0 | 1 | 2,
+    payloadFormat?: string,
+    ackTopic?: string,
+    errorTopic?: string,
+    correlationField?: string,
+
+    primaryKey?: string[],
+    conflictPolicy?: ConflictPolicy,
+
+    captureChanges?: boolean,
+    replication?: boolean,
+
+    autoCreate?: boolean,
+
+    deadLetterTable?: string,
+
+    mapping?: PayloadMapping,
 }
 
 const DataSourceTableSchema = ObjectSchema.array(ObjectSchema.object({
+    schema: ObjectSchema.optional(ObjectSchema.string()),
     table: ObjectSchema.string(),
+    sourceType: ObjectSchema.optional(ObjectSchema.string().withEnumeration(['table', 'view', 'materialized-view', 'query'])),
+    query: ObjectSchema.optional(ObjectSchema.string()),
+    refreshInterval: ObjectSchema.optional(ObjectSchema.integer().withMin(0)),
     publicKey: ObjectSchema.string(),
     secretKey: ObjectSchema.string(),
     fields: ObjectSchema.array(ObjectSchema.object({
         type: ObjectSchema.string().withEnumeration(['NOMINAL', 'TEXT', 'NUMERIC', 'LOGIC', 'DATE']),
         name: ObjectSchema.string(),
+        sql: ObjectSchema.optional(ObjectSchema.string()),
+        language: ObjectSchema.optional(ObjectSchema.string()),
+        computed: ObjectSchema.optional(ObjectSchema.object({
+            timestamp: ObjectSchema.optional(ObjectSchema.boolean()),
+            topicSegment: ObjectSchema.optional(ObjectSchema.integer()),
+            topicCapture: ObjectSchema.optional(ObjectSchema.string()),
+            expression: ObjectSchema.optional(ObjectSchema.string()),
+        })),
+        required: ObjectSchema.optional(ObjectSchema.boolean()),
+        min: ObjectSchema.optional(ObjectSchema.anyOf([ObjectSchema.number(), ObjectSchema.string()])),
+        max: ObjectSchema.optional(ObjectSchema.anyOf([ObjectSchema.number(), ObjectSchema.string()])),
+        regex: ObjectSchema.optional(ObjectSchema.string()),
+        enum: ObjectSchema.optional(ObjectSchema.array(ObjectSchema.anyOf([ObjectSchema.string(), ObjectSchema.number(), ObjectSchema.boolean()]))),
+        maxLength: ObjectSchema.optional(ObjectSchema.integer().withMin(0)),
+        default: ObjectSchema.optional(ObjectSchema.anyOf([ObjectSchema.string(), ObjectSchema.number(), ObjectSchema.boolean()])),
+        onInvalid: ObjectSchema.optional(ObjectSchema.string().withEnumeration(['reject', 'null', 'clamp'])),
     })),
     topic: ObjectSchema.optional(ObjectSchema.string()),
+    broker: ObjectSchema.optional(ObjectSchema.string()),
+    qos: ObjectSchema.optional(ObjectSchema.integer().withEnumeration([0, 1, 2])),
+    payloadFormat: ObjectSchema.optional(ObjectSchema.string()),
+    ackTopic: ObjectSchema.optional(ObjectSchema.string()),
+    errorTopic: ObjectSchema.optional(ObjectSchema.string()),
+    correlationField: ObjectSchema.optional(ObjectSchema.string()),
+    primaryKey: ObjectSchema.optional(ObjectSchema.array(ObjectSchema.string())),
+    conflictPolicy: ObjectSchema.optional(ObjectSchema.string().withEnumeration(['update', 'ignore'])),
+    captureChanges: ObjectSchema.optional(ObjectSchema.boolean()),
+    replication: ObjectSchema.optional(ObjectSchema.boolean()),
+    autoCreate: ObjectSchema.optional(ObjectSchema.boolean()),
+    deadLetterTable: ObjectSchema.optional(ObjectSchema.string()),
+    mapping: ObjectSchema.optional(ObjectSchema.object({
+        explode: ObjectSchema.optional(ObjectSchema.string()),
+        fields: ObjectSchema.optional(ObjectSchema.dict(() => true, () => ObjectSchema.object({
+            path: ObjectSchema.optional(ObjectSchema.string()),
+            rootPath: ObjectSchema.optional(ObjectSchema.string()),
+            value: ObjectSchema.optional(ObjectSchema.anyOf([ObjectSchema.string(), ObjectSchema.number(), ObjectSchema.boolean(), ObjectSchema.null()])),
+            topicSegment: ObjectSchema.optional(ObjectSchema.integer()),
+            topicCapture: ObjectSchema.optional(ObjectSchema.string()),
+        }))),
+    })),
 }));
 
+/**
+ * Checks the table mapping rules that the schema cannot check
+ * @param tableConfig Table mapping
+ */
+function validateTableConfig(tableConfig: DataSourceTableConfig) {
+    const fieldNames = tableConfig.fields.map(f => {
+        return f.name;
+    });
+
+    const sqlFieldNames = tableConfig.fields.filter(f => {
+        return !!f.sql;
+    }).map(f => {
+        return f.name;
+    });
+
+    for (const field of tableConfig.fields) {
+        let rules;
+
+        try {
+            rules = parseFieldRules(<FeatureType>field.type.toLowerCase(), field);
+        } catch (ex) {
+            throw new Error(`Invalid table mappings: Invalid validation rules for field "${field.name}" in table "${tableConfig.table}": ${ex.message}`);
+        }
+
+        if (field.sql && (rules || field.computed)) {
+            throw new Error(`Invalid table mappings: Field "${field.name}" in table "${tableConfig.table}" is computed at query time, it cannot set validation rules or ingestion computations.`);
+        }
+
+        if (field.language !== undefined) {
+            if (field.type.toLowerCase() !== "text" || field.sql) {
+                throw new Error(`Invalid table mappings: Field "${field.name}" in table "${tableConfig.table}" sets a text search language, but it is not a stored TEXT field.`);
+            }
+
+            if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(field.language)) {
+                throw new Error(`Invalid table mappings: Invalid text search language for field "${field.name}" in table "${tableConfig.table}": ${field.language}`);
+            }
+        }
+
+        if (field.computed) {
+            const computations = ["timestamp", "topicSegment", "topicCapture", "expression"].filter(key => {
+                return field.computed[key] !== undefined && field.computed[key] !== false;
+            });
+
+            if (computations.length !== 1) {
+                throw new Error(`Invalid table mappings: Computed field "${field.name}" in table "${tableConfig.table}" must set one of timestamp, topicSegment, topicCapture or expression.`);
+            }
+
+            if (field.computed.expression !== undefined) {
+                let expression: ExpressionNode;
+
+                try {
+                    expression = parseExpression(field.computed.expression);
+                } catch (ex) {
+                    throw new Error(`Invalid table mappings: Invalid expression for field "${field.name}" in table "${tableConfig.table}": ${ex.message}`);
+                }
+
+                for (const name of getExpressionFields(expression)) {
+                    if (!fieldNames.includes(name) || sqlFieldNames.includes(name)) {
+                        throw new Error(`Invalid table mappings: Expression of field "${field.name}" in table "${tableConfig.table}" references an unknown field "${name}".`);
+                    }
+                }
+            }
+        }
+    }
+
+    for (const key of (tableConfig.primaryKey || [])) {
+        if (!fieldNames.includes(key) || sqlFieldNames.includes(key)) {
+            throw new Error(`Invalid table mappings: Primary key field "${key}" not found in table "${tableConfig.table}".`);
+        }
+    }
+
+    for (const field of Object.keys((tableConfig.mapping && tableConfig.mapping.fields) || {})) {
+        if (!fieldNames.includes(field) || sqlFieldNames.includes(field)) {
+            throw new Error(`Invalid table mappings: Mapped field "${field}" not found in table "${tableConfig.table}".`);
+        }
+    }
+
+    if (tableConfig.payloadFormat && !getPayloadDecoder(tableConfig.payloadFormat)) {
+        throw new Error(`Invalid table mappings: Unknown payload format "${tableConfig.payloadFormat}" in table "${tableConfig.table}".`);
+    }
+
+    if (tableConfig.replication && sqlFieldNames.length > 0) {
+        // The replicated rows only carry the stored columns
+        throw new Error(`Invalid table mappings: Table "${tableConfig.table}" sets replication, it cannot have fields computed at query time (sql).`);
+    }
+
+    if (tableConfig.conflictPolicy && !(tableConfig.primaryKey && tableConfig.primaryKey.length > 0)) {
+        throw new Error(`Invalid table mappings: Table "${tableConfig.table}" sets a conflict policy without a primary key.`);
+    }
+
+    validateSourceType(tableConfig);
+}
+
+/**
+ * Checks the rules of the virtual sources (views and queries)
+ * @param tableConfig Table mapping
+ */
+function validateSourceType(tableConfig: DataSourceTableConfig) {
+    const sourceType = tableConfig.sourceType || "table";
+
+    if (sourceType === "query") {
+        // The query is wrapped as a subquery, so it must be a single sentence without placeholders
+        const code = removeSQLLiterals(tableConfig.query || "").trim();
+
+        if (!/^(SELECT|WITH)\b/i.test(code) || /[?;]|\$[0-9]/.test(code)) {
+            throw new Error(`Invalid table mappings: The query of source "${tableConfig.table}" must be a single SELECT sentence, without parameters nor semicolons.`);
+        }
+    } else if (tableConfig.query !== undefined) {
+        throw new Error(`Invalid table mappings: Source "${tableConfig.table}" sets a query, but its source type is not query.`);
+    }
+
+    if (tableConfig.refreshInterval && sourceType !== "materialized-view") {
+        throw new Error(`Invalid table mappings: Source "${tableConfig.table}" sets a refresh interval, but it is not a materialized view.`);
+    }
+
+    if (sourceType === "table") {
+        return;
+    }
+
+    // Virtual sources are read-only
+    const writeOptions = ["topic", "conflictPolicy", "captureChanges", "replication", "autoCreate", "deadLetterTable", "mapping"].filter(key => {
+        return !!tableConfig[key];
+    });
+
+    if (writeOptions.length > 0 || tableConfig.fields.some(f => !!f.computed)) {
+        throw new Error(`Invalid table mappings: Source "${tableConfig.table}" is read-only (${sourceType}), it cannot set ${writeOptions.concat(["computed fields"]).join(", ")}.`);
+    }
+}
+
 /**
  * Configuration class
  */
@@ -72,14 +332,37 @@ export class Config {
 
     public apiDocs: boolean;
 
+    public adminKey: string;
+
+    public schemaCheck: boolean;
+    public ddlAuditLog: string;
+
     public dataSource: DataSourceConfig;
     public tablesConfig: DataSourceTableConfig[];
 
     public deepintURL: string;
+    public updateOutboxPath: string;
+
+    public changeCaptureChannel: string;
+    public changeCaptureInstallTriggers: boolean;
+
+    public replicationSlot: string;
+    public replicationPlugin: string;
+    public replicationPublication: string;
+    public replicationPollInterval: number;
+
+    public deadLetterTable: string;
 
     public mqttURL: string;
     public mqttUser: string;
     public mqttPassword: string;
+    public mqttBrokers: MQTTBrokerConfig[];
+
+    public ingestionQueueSize: number;
+    public ingestionBatchSize: number;
+    public ingestionBatchWindow: number;
+    public ingestionOverflow: "block" | "drop-oldest" | "spill";
+    public ingestionSpillPath: string;
 
     public logEvents: boolean;
     public logDebug: boolean;
@@ -113,15 +396,68 @@ export class Config {
                 throw new Error("Invalid table mappings, check the documentation.");
             }
             this.tablesConfig = DataSourceTableSchema.sanitize(tableMappingData);
+            this.tablesConfig.forEach(validateTableConfig);
         }
 
 
         this.deepintURL = process.env.DEEPINT_API_URL || "https://app.deepint.net/api/v1/";
+        this.updateOutboxPath = process.env.UPDATE_OUTBOX_PATH || "outbox";
+
+        this.changeCaptureChannel = process.env.CHANGE_CAPTURE_CHANNEL || "deepint_changes";
+        this.changeCaptureInstallTriggers = ((process.env.CHANGE_CAPTURE_TRIGGERS + "").toUpperCase() !== "VERIFY");
+
+        this.replicationSlot = process.env.PG_REPLICATION_SLOT || "deepint_external_source";
+        this.replicationPlugin = ((process.env.PG_REPLICATION_PLUGIN + "").toLowerCase() === "pgoutput") ? "pgoutput" : "wal2json";
+        this.replicationPublication = process.env.PG_REPLICATION_PUBLICATION || "deepint_external_source";
+        this.replicationPollInterval = parseInt(process.env.PG_REPLICATION_POLL_INTERVAL, 10) || 1000;
+
+        this.deadLetterTable = process.env.DEAD_LETTER_TABLE || "";
 
         this.mqttURL = process.env.MQTT_URL || "mqtt://localhost";
         this.mqttUser = process.env.MQTT_USER || "";
         this.mqttPassword = process.env.MQTT_PASSWORD || "";
 
+        this.mqttBrokers = [];
+
+        if (process.env.MQTT_BROKERS_FILE) {
+            const brokersData = JSON.parse(readFileSync(process.env.MQTT_BROKERS_FILE).toString());
+            if (!MQTTBrokersSchema.test(brokersData)) {
+                throw new Error("Invalid MQTT broker profiles, check the documentation.");
+            }
+            this.mqttBrokers = MQTTBrokersSchema.sanitize(brokersData);
+        }
+
+        if (!this.mqttBrokers.find(b => b.name === DEFAULT_MQTT_BROKER)) {
+            this.mqttBrokers.push({
+                name: DEFAULT_MQTT_BROKER,
+                url: this.mqttURL,
+                username: this.mqttUser,
+                password: this.mqttPassword,
+            });
+        }
+
+        this.ingestionQueueSize = parseInt(process.env.INGESTION_QUEUE_SIZE, 10) || 10000;
+        this.ingestionBatchSize = parseInt(process.env.INGESTION_BATCH_SIZE, 10) || 500;
+        this.ingestionBatchWindow = parseInt(process.env.INGESTION_BATCH_WINDOW, 10) || 200;
+        this.ingestionSpillPath = process.env.INGESTION_SPILL_PATH || "spill";
+
+        switch ((process.env.INGESTION_OVERFLOW + "").toLowerCase()) {
+        case "drop-oldest":
+            this.ingestionOverflow = "drop-oldest";
+            break;
+        case "spill":
+            this.ingestionOverflow = "spill";
+            break;
+        default:
+            this.ingestionOverflow = "block";
+        }
+
+        for (const tableConfig of this.tablesConfig) {
+            if (tableConfig.broker && !this.mqttBrokers.find(b => b.name === tableConfig.broker)) {
+                throw new Error(`Invalid table mappings: Unknown MQTT broker "${tableConfig.broker}" in table "${tableConfig.table}".`);
+            }
+        }
+
         const logMode = process.env.LOG_MODE + "";
 
         switch (logMode.toUpperCase()) {
@@ -144,5 +480,12 @@ export class Config {
         // API docs
 
         this.apiDocs = ((process.env.API_DOCS + "").toUpperCase() !== "NO");
+
+        // Administration
+
+        this.adminKey = process.env.ADMIN_KEY || "";
+
+        this.schemaCheck = ((process.env.SCHEMA_CHECK + "").toUpperCase() !== "NO");
+        this.ddlAuditLog = process.env.DDL_AUDIT_LOG || "ddl-audit.log";
     }
 }
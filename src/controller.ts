@@ -3,7 +3,9 @@
 "use strict";
 
 import Express from "express";
+import { Config } from "./config";
 import { DataSource, DataSourceTable } from "./source";
+import { secureStringCompare } from "./utils/text";
 
 export class Controller {
     public register(application: Express.Express) {
@@ -16,4 +18,14 @@ export class Controller {
 
         return DataSource.getInstance().getTableFromCredentials(pubKey, secretKey);
     }
+
+    public checkAdminAuth(request: Express.Request): boolean {
+        const adminKey = Config.getInstance().adminKey;
+
+        if (!adminKey) {
+            return false;
+        }
+
+        return secureStringCompare(request.headers["x-admin-key"] + "", adminKey);
+    }
 }
@@ -0,0 +1,158 @@
+// Administration
+
+"use strict";
+
+import Express from "express";
+import { Controller } from "../controller";
+import { checkTextSearchIndexes, createTextSearchIndexes, proposeTableMapping } from "../schema";
+import { DataSource } from "../source";
+
+/**
+ * Controller for the administration of the service.
+ * Requires the ADMIN_KEY to be configured.
+ */
+export class AdminController extends Controller {
+    public register(application: Express.Express) {
+        application.post("/admin/introspect", this.introspectTable.bind(this));
+        application.post("/admin/fts-index", this.textSearchIndexes.bind(this));
+    }
+
+    /**
+     * @typedef IntrospectRequest
+     * @property {string} table.required - Name of the table
+     * @property {string} schema - Name of the schema. Default: current schema
+     */
+
+    /**
+     * @typedef SkippedColumn
+     * @property {string} name.required - Column name
+     * @property {string} type.required - Column type
+     */
+
+    /**
+     * @typedef IntrospectResponse
+     * @property {object} mapping.required - Proposed table mapping
+     * @property {Array.<SkippedColumn>} skipped.required - Columns left out of the mapping, because their type is not supported
+     */
+
+    /**
+     * Proposes a table mapping for an existing table, from its columns
+     * @route POST /admin/introspect
+     * @group admin - Administration
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {IntrospectRequest.model} request.body - Request body
+     * @returns {IntrospectResponse.model} 200 - Success
+     * @returns {void} 400 - Table name required
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Table not found
+     */
+    public async introspectTable(request: Express.Request, response: Express.Response) {
+        if (!this.checkAdminAuth(request)) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        const body = request.body || {};
+        const table = (body.table || "") + "";
+        const schema = (body.schema || "") + "";
+
+        if (!table) {
+            response.status(400);
+            response.send("The table name is required.");
+            return;
+        }
+
+        const proposal = await proposeTableMapping(table, schema || undefined);
+
+        if (!proposal) {
+            response.status(404);
+            response.send("Table not found.");
+            return;
+        }
+
+        response.json({
+            mapping: proposal.mapping,
+            skipped: proposal.skipped.map(c => {
+                return {
+                    name: c.name,
+                    type: c.dataType,
+                };
+            }),
+        });
+    }
+
+    /**
+     * @typedef TextSearchIndexRequest
+     * @property {string} table.required - Name of the table, as set in the table mapping
+     * @property {string} schema - Schema of the table, as set in the table mapping
+     * @property {boolean} create - Set to true to create the missing indexes. Otherwise, they are only checked.
+     */
+
+    /**
+     * @typedef TextSearchIndex
+     * @property {string} field.required - Name of the TEXT field
+     * @property {string} index.required - Name of the GIN index
+     * @property {boolean} exists.required - True if the index exists and is valid
+     */
+
+    /**
+     * @typedef TextSearchIndexResponse
+     * @property {Array.<TextSearchIndex>} indexes.required - Index of each stored TEXT field
+     * @property {Array.<string>} executed.required - Executed DDL sentences
+     */
+
+    /**
+     * Checks, or creates, the full-text search indexes of a mapped table
+     * @route POST /admin/fts-index
+     * @group admin - Administration
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {TextSearchIndexRequest.model} request.body - Request body
+     * @returns {TextSearchIndexResponse.model} 200 - Success
+     * @returns {void} 400 - The source cannot be indexed (view or query)
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Table not found in the table mappings
+     */
+    public async textSearchIndexes(request: Express.Request, response: Express.Response) {
+        if (!this.checkAdminAuth(request)) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        const body = request.body || {};
+        const name = (body.table || "") + "";
+        const schema = (body.schema || "") + "";
+
+        const table = DataSource.getInstance().tables.find(t => {
+            return t.table === name && t.schema === schema;
+        });
+
+        if (!table) {
+            response.status(404);
+            response.send("Table not found in the table mappings.");
+            return;
+        }
+
+        if (table.sourceType !== "table" && table.sourceType !== "materialized-view") {
+            response.status(400);
+            response.send("The source is a " + table.sourceType + ", it cannot be indexed.");
+            return;
+        }
+
+        const executed = body.create ? await createTextSearchIndexes(table) : [];
+
+        const indexes = await checkTextSearchIndexes(table);
+
+        response.json({
+            indexes: indexes.map(i => {
+                return {
+                    field: i.feature.name,
+                    index: i.index,
+                    exists: i.valid,
+                };
+            }),
+            executed: executed,
+        });
+    }
+}
@@ -0,0 +1,335 @@
+// Dead-letter administration
+
+"use strict";
+
+import Express from "express";
+import { Controller } from "../controller";
+import { DeadLetterEntry, DeadLetterStore } from "../dead-letter";
+import { DataSource, DataSourceTable } from "../source";
+
+const DEAD_LETTER_LIST_LIMIT = 1000;
+
+/**
+ * Controller to inspect, replay and purge the rejected payloads of the sources.
+ * Requires the ADMIN_KEY to be configured.
+ */
+export class DeadLetterController extends Controller {
+    public register(application: Express.Express) {
+        application.post("/deadletter/list", this.listEntries.bind(this));
+        application.post("/deadletter/get", this.getEntry.bind(this));
+        application.post("/deadletter/replay", this.replayEntries.bind(this));
+        application.post("/deadletter/purge", this.purgeEntries.bind(this));
+    }
+
+    /**
+     * Checks the administration key, finds the source and checks its dead-letter table configuration
+     * @param request The request
+     * @param response The response
+     * @returns The table, or null if the response was already sent
+     */
+    private getTable(request: Express.Request, response: Express.Response): DataSourceTable {
+        if (!this.checkAdminAuth(request)) {
+            response.status(401);
+            response.end();
+            return null;
+        }
+
+        const source = ((request.body || {}).source || "") + "";
+
+        const table = DataSource.getInstance().tables.find(t => {
+            return t.publicKey === source;
+        });
+
+        if (!table) {
+            response.status(404);
+            response.send("Source not found.");
+            return null;
+        }
+
+        if (!DeadLetterStore.getInstance().isEnabled(table)) {
+            response.status(404);
+            response.send("The dead-letter table is not configured for this source.");
+            return null;
+        }
+
+        return table;
+    }
+
+    /**
+     * @typedef DeadLetterEntry
+     * @property {string} id.required - Entry ID
+     * @property {string} origin.required - Origin of the payload - eg: mqtt:sensors/temperature
+     * @property {string} payload.required - Payload
+     * @property {enum} payload_format.required - Format of the payload - eg: json,text,base64
+     * @property {string} error_code.required - Error code
+     * @property {string} error_message.required - Error message
+     * @property {string} date.required - Date the payload was rejected
+     */
+
+    /**
+     * @typedef DeadLetterListRequest
+     * @property {string} source.required - Public key of the source
+     * @property {number} skip - Number of entries to skip
+     * @property {number} limit - Max number of entries to return
+     */
+
+    /**
+     * @typedef DeadLetterListResponse
+     * @property {number} count.required - Total number of entries
+     * @property {Array.<DeadLetterEntry>} entries.required - Entries, oldest first
+     */
+
+    /**
+     * Lists the rejected payloads
+     * @route POST /deadletter/list
+     * @group deadletter - Rejected payloads
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {DeadLetterListRequest.model} request.body - Request body
+     * @returns {DeadLetterListResponse.model} 200 - Success
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Source not found, or dead-letter table not configured
+     */
+    public async listEntries(request: Express.Request, response: Express.Response) {
+        const table = this.getTable(request, response);
+        if (!table) {
+            return;
+        }
+
+        const body = request.body || {};
+        const skip = Math.max(0, parseInt(body.skip + "", 10) || 0);
+        const limit = Math.min(DEAD_LETTER_LIST_LIMIT, Math.max(0, parseInt(body.limit + "", 10) || DEAD_LETTER_LIST_LIMIT));
+
+        const count = await DeadLetterStore.getInstance().count(table);
+        const entries = await DeadLetterStore.getInstance().list(table, skip, limit);
+
+        response.json({
+            count: count,
+            entries: entries.map(toJSON),
+        });
+    }
+
+    /**
+     * @typedef DeadLetterGetRequest
+     * @property {string} source.required - Public key of the source
+     * @property {string} id.required - Entry ID
+     */
+
+    /**
+     * Gets a rejected payload
+     * @route POST /deadletter/get
+     * @group deadletter - Rejected payloads
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {DeadLetterGetRequest.model} request.body - Request body
+     * @returns {DeadLetterEntry.model} 200 - Success
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Source or entry not found
+     */
+    public async getEntry(request: Express.Request, response: Express.Response) {
+        const table = this.getTable(request, response);
+        if (!table) {
+            return;
+        }
+
+        const id = parseEntryId((request.body || {}).id);
+        const entry = id ? await DeadLetterStore.getInstance().get(table, id) : null;
+
+        if (!entry) {
+            response.status(404);
+            response.send("Entry not found.");
+            return;
+        }
+
+        response.json(toJSON(entry));
+    }
+
+    /**
+     * @typedef DeadLetterIdsRequest
+     * @property {string} source.required - Public key of the source
+     * @property {Array.<string>} ids.required - Entry IDs
+     */
+
+    /**
+     * @typedef DeadLetterReplayResult
+     * @property {string} id.required - Entry ID
+     * @property {boolean} replayed.required - True if the payload was inserted (and the entry removed)
+     * @property {number} inserted.required - Number of inserted instances
+     * @property {string} error_code - Error code, if not replayed
+     * @property {string} error_message - Error message, if not replayed
+     */
+
+    /**
+     * @typedef DeadLetterReplayResponse
+     * @property {Array.<DeadLetterReplayResult>} results.required - Result for each entry
+     */
+
+    /**
+     * Replays rejected payloads: they are sanitized and pushed again to the source.
+     * Replayed entries are removed. The entries that fail again are kept.
+     * @route POST /deadletter/replay
+     * @group deadletter - Rejected payloads
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {DeadLetterIdsRequest.model} request.body - Request body
+     * @returns {DeadLetterReplayResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid IDs
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Source not found, or dead-letter table not configured
+     */
+    public async replayEntries(request: Express.Request, response: Express.Response) {
+        const table = this.getTable(request, response);
+        if (!table) {
+            return;
+        }
+
+        const ids = parseEntryIds((request.body || {}).ids);
+
+        if (!ids || ids.length === 0) {
+            response.status(400);
+            response.send("A list of entry IDs is required.");
+            return;
+        }
+
+        const results = [];
+
+        for (const id of ids) {
+            const entry = await DeadLetterStore.getInstance().get(table, id);
+
+            if (!entry) {
+                results.push({
+                    id: id,
+                    replayed: false,
+                    inserted: 0,
+                    error_code: "NOT_FOUND",
+                    error_message: "Entry not found.",
+                });
+                continue;
+            }
+
+            try {
+                const result = await DeadLetterStore.getInstance().replay(table, entry);
+
+                if (result.rejected.length > 0) {
+                    results.push({
+                        id: id,
+                        replayed: false,
+                        inserted: 0,
+                        error_code: result.rejected[0].code,
+                        error_message: result.rejected[0].message,
+                    });
+                } else {
+                    results.push({
+                        id: id,
+                        replayed: true,
+                        inserted: result.inserted,
+                    });
+                }
+            } catch (ex) {
+                results.push({
+                    id: id,
+                    replayed: false,
+                    inserted: 0,
+                    error_code: ex.code || "INTERNAL_ERROR",
+                    error_message: ex.message,
+                });
+            }
+        }
+
+        response.json({
+            results: results,
+        });
+    }
+
+    /**
+     * @typedef DeadLetterPurgeRequest
+     * @property {string} source.required - Public key of the source
+     * @property {Array.<string>} ids - Entry IDs. If not set, all the entries are removed.
+     * @property {string} before - If set, only the entries rejected before this date are removed
+     */
+
+    /**
+     * @typedef DeadLetterPurgeResponse
+     * @property {number} affected.required - Number of removed entries
+     */
+
+    /**
+     * Removes rejected payloads
+     * @route POST /deadletter/purge
+     * @group deadletter - Rejected payloads
+     * @param {string} x-admin-key.header.required - Administration key
+     * @param {DeadLetterPurgeRequest.model} request.body - Request body
+     * @returns {DeadLetterPurgeResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid IDs or date
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 404 - Source not found, or dead-letter table not configured
+     */
+    public async purgeEntries(request: Express.Request, response: Express.Response) {
+        const table = this.getTable(request, response);
+        if (!table) {
+            return;
+        }
+
+        const body = request.body || {};
+
+        let ids: string[] = null;
+
+        if (body.ids !== undefined && body.ids !== null) {
+            ids = parseEntryIds(body.ids);
+            if (!ids) {
+                response.status(400);
+                response.send("Invalid entry IDs.");
+                return;
+            }
+        }
+
+        let before: Date = null;
+
+        if (body.before !== undefined && body.before !== null && body.before !== "") {
+            before = new Date(body.before);
+            if (isNaN(before.getTime())) {
+                response.status(400);
+                response.send("Invalid date: " + body.before);
+                return;
+            }
+        }
+
+        const affected = await DeadLetterStore.getInstance().purge(table, ids, before);
+
+        response.json({
+            affected: affected,
+        });
+    }
+}
+
+function toJSON(entry: DeadLetterEntry) {
+    return {
+        id: entry.id,
+        origin: entry.origin,
+        payload: entry.payload,
+        payload_format: entry.payloadFormat,
+        error_code: entry.errorCode,
+        error_message: entry.errorMessage,
+        date: entry.date ? entry.date.toISOString() : null,
+    };
+}
+
+function parseEntryId(id: any): string {
+    const str = (id === undefined || id === null) ? "" : (id + "");
+    return /^[0-9]{1,18}$/.test(str) ? str : null;
+}
+
+function parseEntryIds(ids: any): string[] {
+    if (!Array.isArray(ids)) {
+        return null;
+    }
+
+    const result: string[] = [];
+
+    for (const id of ids) {
+        const parsed = parseEntryId(id);
+        if (!parsed) {
+            return null;
+        }
+        result.push(parsed);
+    }
+
+    return result;
+}
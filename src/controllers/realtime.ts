@@ -0,0 +1,72 @@
+// Real-time status
+
+"use strict";
+
+import Express from "express";
+import { Controller } from "../controller";
+import { RealTimeController } from "../mqtt";
+
+/**
+ * Controller for the real-time (MQTT) ingestion status
+ */
+export class RealTimeStatusController extends Controller {
+    public register(application: Express.Express) {
+        application.get("/realtime/status", this.getStatus.bind(this));
+    }
+
+    /**
+     * @typedef RealTimeStatus
+     * @property {string} topic.required - Topic the source is subscribed to
+     * @property {string} broker.required - Name of the MQTT broker profile
+     * @property {boolean} connected.required - True if connected to the broker
+     * @property {boolean} subscribed.required - True if subscribed to the topic
+     * @property {string} subscription_error - Error of the last subscription attempt
+     * @property {string} payload_format.required - Format of the payloads
+     * @property {number} messages.required - Number of received messages
+     * @property {number} decode_errors.required - Number of messages that could not be decoded
+     * @property {string} last_decode_error - Error of the last message that could not be decoded
+     * @property {string} last_decode_error_date - Date of the last message that could not be decoded
+     * @property {number} queue_depth.required - Number of instances in the ingestion queue
+     * @property {number} queue_spilled.required - Number of instances spilled to disk, pending to be inserted
+     * @property {number} queue_dropped.required - Number of instances dropped because the ingestion queue was full
+     */
+
+    /**
+     * Gets the status of the real-time ingestion of the source
+     * @route GET /realtime/status
+     * @group realtime - Real-time ingestion
+     * @param {string} x-public-key.header.required - Source public key
+     * @param {string} x-secret-key.header.required - Source secret key
+     * @returns {RealTimeStatus.model} 200 - Success
+     * @returns {void} 401 - Unauthorized
+     */
+    public getStatus(request: Express.Request, response: Express.Response) {
+        const table = this.checkAuth(request);
+        if (!table) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        const stats = RealTimeController.getInstance().getStats(table);
+        const broker = RealTimeController.getInstance().getBroker(table);
+        const pipeline = RealTimeController.getInstance().getPipeline(table);
+        const subscription = (broker && table.topicPattern) ? broker.subscriptions.find(s => s.topic === table.topicPattern.filter) : null;
+
+        response.json({
+            topic: table.topic,
+            broker: table.broker,
+            connected: broker ? broker.connected : false,
+            subscribed: subscription ? subscription.subscribed : false,
+            subscription_error: subscription ? subscription.error : "",
+            payload_format: table.payloadFormat,
+            messages: stats.messages,
+            decode_errors: stats.decodeErrors,
+            last_decode_error: stats.lastDecodeError,
+            last_decode_error_date: stats.lastDecodeErrorDate ? stats.lastDecodeErrorDate.toISOString() : null,
+            queue_depth: pipeline ? pipeline.depth : 0,
+            queue_spilled: pipeline ? pipeline.spilled : 0,
+            queue_dropped: pipeline ? pipeline.dropped : 0,
+        });
+    }
+}
@@ -6,7 +6,10 @@ import Express from "express";
 import { Config } from "../config";
 import { Controller } from "../controller";
 import { DataSource } from "../source";
+import { AggregationQuery, sanitizeAggregation } from "../utils/aggregation";
 import { QueryTree } from "../utils/deepint-sources";
+import { sanitizeTimeSeriesQuery, TimeSeriesQuery } from "../utils/downsampling";
+import { ContinuationToken } from "../utils/pagination";
 
 /**
  * Controller for external source
@@ -18,6 +21,8 @@ export class StatusController extends Controller {
         application.post("/source/metadata", this.getMetadata.bind(this));
         application.post("/source/query", this.queryInstances.bind(this));
         application.post("/source/count", this.countInstances.bind(this));
+        application.post("/source/aggregate", this.aggregateInstances.bind(this));
+        application.post("/source/timeseries", this.getTimeSeries.bind(this));
 
         application.post("/source/nominal/values", this.getNominalValues.bind(this));
     }
@@ -99,9 +104,9 @@ export class StatusController extends Controller {
     /**
      * @typedef QueryTree
      * @property {enum} type.required - Node type - eg: single,one,anyof,allof,not
-     * @property {enum} operation - Operation type - eg: none,null,eq,lt,le,gt,ge,cn,cni,sw,swi,ew,ewi
+     * @property {enum} operation - Operation type - eg: none,null,notnull,eq,ne,lt,le,gt,ge,cn,cni,sw,swi,ew,ewi,in,nin,between,regex,iregex,inlast,olderthan,fts
      * @property {number} left - Index of the feature to compare
-     * @property {string} right - Value to compare against
+     * @property {string} right - Value to compare against. A list of values for in, nin and between ([min, max]). A relative time for inlast and olderthan - eg: 24 hours
      * @property {Array.<QueryTree>} children - Children nodes, for types AnyOf, Not and AllOf
      */
 
@@ -111,7 +116,9 @@ export class StatusController extends Controller {
      * @property {string} projection - Projection, List of indexes split by commas
      * @property {number} order - Feature index to order by. Set to -1 for no order.
      * @property {enum} dir - Order direction - eg: asc,desc
-     * @property {number} skip - Number of instances to skip
+     * @property {boolean} rank - Set to true to order by relevance (most relevant first) for the full-text search (fts) conditions of the filter, instead of by the order feature. Continuation tokens are not available for this order.
+     * @property {number} skip - Number of instances to skip. Ignored if after is set.
+     * @property {string} after - Continuation token (next) returned by the previous page, to get the instances after it
      * @property {number} limit - Max number of instances to return
      */
 
@@ -119,6 +126,7 @@ export class StatusController extends Controller {
      * @typedef QueryResponse
      * @property {Array.<SourceFeature>} features.required - Features
      * @property {Array.<Array.<string>>} instances.required - Instances
+     * @property {string} next - Continuation token for the next page. Null if there are no more instances, or if the source has no primary key.
      */
 
     /**
@@ -129,6 +137,7 @@ export class StatusController extends Controller {
      * @param {string} x-secret-key.header.required - Source secret key
      * @param {QueryRequest.model} request.body - Request body
      * @returns {QueryResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid filter or continuation token
      * @returns {void} 401 - Unauthorized
      */
     public async queryInstances(request: Express.Request, response: Express.Response) {
@@ -155,6 +164,26 @@ export class StatusController extends Controller {
         const skip = parseInt(request.body.skip + "", 10) || 0;
         const limit = parseInt(request.body.limit + "", 10) || 0;
 
+        const rank = !!request.body.rank;
+
+        let after: ContinuationToken = null;
+
+        if (request.body.after) {
+            if (rank) {
+                response.status(400);
+                response.send("Continuation tokens cannot be used with the rank order. Use skip instead.");
+                return;
+            }
+
+            try {
+                after = DataSource.getInstance().parseContinuationToken(table, request.body.after + "", order, dir);
+            } catch (ex) {
+                response.status(400);
+                response.send(ex.message);
+                return;
+            }
+        }
+
         const projection = DataSource.getInstance().sanitizeProjection(table, (request.body.projection || "") + "");
 
         response.status(200);
@@ -168,7 +197,7 @@ export class StatusController extends Controller {
             console.log("[QUERY] [FILTER] " + JSON.stringify(filter));
         }
 
-        await DataSource.getInstance().query(table, filter, order, dir, skip, limit, projection, (features) => {
+        const next = await DataSource.getInstance().query(table, filter, order, dir, rank, skip, after, limit, projection, (features) => {
             const featuresJSON = features.map(a => {
                 return {
                     index: a.index,
@@ -186,7 +215,7 @@ export class StatusController extends Controller {
             requiresComma = true;
         });
 
-        response.write(`]}`);
+        response.write(`],\n\t"next": ${JSON.stringify(next)}\n}`);
         response.end();
     }
 
@@ -235,6 +264,153 @@ export class StatusController extends Controller {
         })
     }
 
+    /**
+     * @typedef AggregateGroupBy
+     * @property {number} feature.required - Feature index
+     * @property {enum} bucket - Date bucket, for DATE features - eg: minute,hour,day,week
+     */
+
+    /**
+     * @typedef Aggregate
+     * @property {enum} function.required - Aggregate function - eg: count,sum,avg,min,max,stddev,percentile
+     * @property {number} feature - Feature index (NUMERIC). Optional for count: if not set, the instances are counted.
+     * @property {number} percentile - Percentile between 0 and 1, for the percentile function - eg: 0.95
+     */
+
+    /**
+     * @typedef AggregateRequest
+     * @property {QueryTree.model} filter - Filter to apply. Set null for no filter.
+     * @property {Array.<AggregateGroupBy>} groupBy - Features to group by. Feature indexes are accepted too. Empty for a single group.
+     * @property {Array.<Aggregate>} aggregates - Aggregates to compute. Default: count
+     * @property {number} limit - Max number of groups to return. Default and max: 10000
+     */
+
+    /**
+     * @typedef AggregateRow
+     * @property {Array.<string>} keys.required - Values of the group by features (start of the bucket, for the bucketed dates)
+     * @property {Array.<number>} values.required - Values of the aggregates, in the same order as requested
+     */
+
+    /**
+     * @typedef AggregateResponse
+     * @property {Array.<AggregateRow>} groups.required - Groups, ordered by their keys
+     */
+
+    /**
+     * Computes grouped statistics
+     * @route POST /source/aggregate
+     * @group source - Source management
+     * @param {string} x-public-key.header.required - Source public key
+     * @param {string} x-secret-key.header.required - Source secret key
+     * @param {AggregateRequest.model} request.body - Request body
+     * @returns {AggregateResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid filter, groups or aggregates
+     * @returns {void} 401 - Unauthorized
+     */
+    public async aggregateInstances(request: Express.Request, response: Express.Response) {
+        const table = this.checkAuth(request);
+        if (!table) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        let filter: QueryTree;
+        let aggregation: AggregationQuery;
+
+        try {
+            filter = DataSource.getInstance().sanitizeFilter(request.body.filter);
+            aggregation = sanitizeAggregation(table.fields, request.body || {});
+        } catch (ex) {
+            response.status(400);
+            response.send(ex.message);
+            return;
+        }
+
+        const groups = await DataSource.getInstance().aggregate(table, filter, aggregation);
+
+        response.json({
+            groups: groups,
+        });
+    }
+
+    /**
+     * @typedef TimeSeriesRequest
+     * @property {QueryTree.model} filter - Filter to apply. Set null for no filter.
+     * @property {number} feature.required - Index of the DATE feature with the time of the instances
+     * @property {string} from.required - Start of the time range (inclusive)
+     * @property {string} to.required - End of the time range (exclusive)
+     * @property {number} points - Target number of points (buckets). Default: 1000. Ignored if bucket is set.
+     * @property {number} bucket - Width of the buckets, in seconds
+     * @property {enum} method - Downsampling method - eg: avg,minmax,lttb,last
+     * @property {Array.<number>} features.required - Indexes of the NUMERIC features to return the series of
+     */
+
+    /**
+     * @typedef TimeSeries
+     * @property {number} feature.required - Feature index
+     * @property {Array.<Array.<string>>} points.required - Points: [time, value], or [time, min, max] for the minmax method. Time is the start of the bucket, except for the lttb method.
+     */
+
+    /**
+     * @typedef TimeSeriesResponse
+     * @property {string} from.required - Start of the time range
+     * @property {string} to.required - End of the time range
+     * @property {number} bucket.required - Width of the buckets, in seconds
+     * @property {enum} method.required - Downsampling method - eg: avg,minmax,lttb,last
+     * @property {Array.<TimeSeries>} series.required - Series, one for each requested feature
+     */
+
+    /**
+     * Gets downsampled time series
+     * @route POST /source/timeseries
+     * @group source - Source management
+     * @param {string} x-public-key.header.required - Source public key
+     * @param {string} x-secret-key.header.required - Source secret key
+     * @param {TimeSeriesRequest.model} request.body - Request body
+     * @returns {TimeSeriesResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid filter, features, time range or buckets
+     * @returns {void} 401 - Unauthorized
+     */
+    public async getTimeSeries(request: Express.Request, response: Express.Response) {
+        const table = this.checkAuth(request);
+        if (!table) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        let filter: QueryTree;
+        let query: TimeSeriesQuery;
+
+        try {
+            filter = DataSource.getInstance().sanitizeFilter(request.body.filter);
+            query = sanitizeTimeSeriesQuery(table.fields, request.body || {});
+        } catch (ex) {
+            response.status(400);
+            response.send(ex.message);
+            return;
+        }
+
+        const series = await DataSource.getInstance().timeSeries(table, filter, query);
+
+        response.json({
+            from: query.from.toISOString(),
+            to: query.to.toISOString(),
+            bucket: query.width / 1000,
+            method: query.method,
+            series: series.map(s => {
+                return {
+                    feature: s.feature.index,
+                    points: s.points.map(p => {
+                        const time = (new Date(p.time)).toISOString();
+                        return query.method === "minmax" ? [time, p.value, p.max] : [time, p.value];
+                    }),
+                };
+            }),
+        });
+    }
+
     /**
      * @typedef NominalRequest
      * @property {number} feature - Feature index
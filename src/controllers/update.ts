@@ -4,7 +4,9 @@
 
 import Express from "express";
 import { Controller } from "../controller";
-import { DataSource } from "../source";
+import { DEAD_LETTER_ORIGIN_HTTP, DeadLetterStore, toDeadLetterPayload } from "../dead-letter";
+import { DataSource, DataSourceTable, isReadOnlySource, mergeRejectedInstances, PushResult } from "../source";
+import { Feature, InstanceType, QueryTree, toSQLCondition } from "../utils/deepint-sources";
 
 /**
  * Controller for updating the source
@@ -12,18 +14,55 @@ import { DataSource } from "../source";
 export class UpdateController extends Controller {
     public register(application: Express.Express) {
         application.post("/update/push", this.pushInstances.bind(this));
+        application.post("/update/modify", this.modifyInstances.bind(this));
+        application.post("/update/delete", this.deleteInstances.bind(this));
         application.post("/update/notice", this.noticeUpdate.bind(this));
     }
 
     /**
-     * Push instances to the data source
+     * @typedef PushBatch
+     * @property {number} rows.required - Number of instances inserted in the batch
+     * @property {number} duration.required - Time spent inserting the batch (milliseconds)
+     */
+
+    /**
+     * @typedef PushRejectedInstance
+     * @property {number} index.required - Index of the rejected instance
+     * @property {string} code.required - PostgreSQL error code, or VALIDATION_ERROR
+     * @property {string} message.required - Error message
+     */
+
+    /**
+     * @typedef SanitizeChange
+     * @property {number} index.required - Index of the instance
+     * @property {string} field.required - Name of the field
+     * @property {string} change.required - What the validation rules changed - eg: Default value applied
+     */
+
+    /**
+     * @typedef PushResponse
+     * @property {enum} mode.required - Push mode - eg: atomic,partial
+     * @property {number} inserted.required - Number of inserted instances
+     * @property {Array.<PushBatch>} batches.required - Inserted batches
+     * @property {Array.<PushRejectedInstance>} rejected.required - Rejected instances
+     * @property {Array.<SanitizeChange>} changes.required - Values changed by the validation rules of the fields
+     */
+
+    /**
+     * Push instances to the data source.
+     * In atomic mode (default) either all of the instances are inserted or none.
+     * In partial mode the valid instances are inserted and the rejected ones are reported
+     * (and stored in the dead-letter table, if configured).
      * @route POST /update/push
      * @group update - Source updating methods
      * @param {string} x-public-key.header.required - Source public key
      * @param {string} x-secret-key.header.required - Source secret key
+     * @param {enum} mode.query - Push mode - eg: atomic,partial
      * @param {Array.<object>} instances.body - Instances - eg: [{"sepallength": 5.1, "sepalwidth": 3.5, "petallength": 1.4, "petalwidth": 0.2, "species": "setosa"}]
-     * @returns {void} 200 - Success
+     * @returns {PushResponse.model} 200 - Success
+     * @returns {PushResponse.model} 400 - Instances rejected (atomic mode)
      * @returns {void} 401 - Unauthorized
+     * @returns {void} 403 - Read-only source
      */
     public async pushInstances(request: Express.Request, response: Express.Response) {
         const table = this.checkAuth(request);
@@ -33,14 +72,213 @@ export class UpdateController extends Controller {
             return;
         }
 
-        const instances = DataSource.getInstance().sanitizeInstances(table, request.body || []);
+        if (!this.checkWritable(table, response)) {
+            return;
+        }
+
+        const mode = (request.query.mode || "atomic") + "";
+
+        if (mode !== "atomic" && mode !== "partial") {
+            response.status(400);
+            response.send("Invalid push mode: " + mode);
+            return;
+        }
+
+        const sanitized = DataSource.getInstance().sanitizeInstances(table, request.body || []);
+
+        let result: PushResult;
+
+        if (mode === "atomic" && sanitized.rejected.length > 0) {
+            // Invalid instances, nothing is inserted
+            result = {
+                mode: mode,
+                inserted: 0,
+                batches: [],
+                rejected: [],
+                rows: [],
+                indexes: [],
+                ignored: [],
+            };
+        } else {
+            result = await DataSource.getInstance().pushInstances(table, sanitized.instances, mode);
+        }
+
+        if (result.inserted > 0) {
+            DataSource.getInstance().noticeUpdate(table);
+        }
+
+        const rejected = mergeRejectedInstances(sanitized, result.rejected);
+
+        if (result.mode === "partial") {
+            // Rejected instances are kept in the dead-letter table
+            for (const r of rejected) {
+                await DeadLetterStore.getInstance().add(table, DEAD_LETTER_ORIGIN_HTTP, toDeadLetterPayload(request.body[r.index]), "json", r.code, r.message);
+            }
+        }
+
+        if (result.mode === "atomic" && rejected.length > 0) {
+            response.status(400);
+        }
+
+        response.json({
+            mode: result.mode,
+            inserted: result.inserted,
+            batches: result.batches,
+            rejected: rejected,
+            changes: sanitized.changes,
+        });
+    }
+
+    /**
+     * @typedef ModifyRequest
+     * @property {QueryTree.model} filter.required - Filter to select the instances to modify
+     * @property {object} instance.required - Fields to set, with their new values - eg: {"species": "setosa"}
+     */
+
+    /**
+     * @typedef AffectedResponse
+     * @property {number} affected.required - Number of affected instances
+     */
+
+    /**
+     * Modifies the instances matching a filter
+     * @route POST /update/modify
+     * @group update - Source updating methods
+     * @param {string} x-public-key.header.required - Source public key
+     * @param {string} x-secret-key.header.required - Source secret key
+     * @param {ModifyRequest.model} request.body - Request body
+     * @returns {AffectedResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid filter or instance
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 403 - Read-only source
+     */
+    public async modifyInstances(request: Express.Request, response: Express.Response) {
+        const table = this.checkAuth(request);
+        if (!table) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        if (!this.checkWritable(table, response)) {
+            return;
+        }
+
+        const filter = this.getRequiredFilter(table, request, response);
+        if (!filter) {
+            return;
+        }
+
+        let changes: { feature: Feature, value: InstanceType }[];
+
+        try {
+            changes = DataSource.getInstance().sanitizePartialInstance(table, request.body.instance);
+        } catch (ex) {
+            response.status(400);
+            response.send(ex.message);
+            return;
+        }
+
+        if (changes.length === 0) {
+            response.status(400);
+            response.send("The instance must set at least one field.");
+            return;
+        }
+
+        const affected = await DataSource.getInstance().modifyInstances(table, filter, changes);
+
+        DataSource.getInstance().noticeUpdate(table);
+
+        response.json({
+            affected: affected,
+        });
+    }
+
+    /**
+     * @typedef DeleteRequest
+     * @property {QueryTree.model} filter.required - Filter to select the instances to delete
+     */
+
+    /**
+     * Deletes the instances matching a filter
+     * @route POST /update/delete
+     * @group update - Source updating methods
+     * @param {string} x-public-key.header.required - Source public key
+     * @param {string} x-secret-key.header.required - Source secret key
+     * @param {DeleteRequest.model} request.body - Request body
+     * @returns {AffectedResponse.model} 200 - Success
+     * @returns {void} 400 - Invalid filter
+     * @returns {void} 401 - Unauthorized
+     * @returns {void} 403 - Read-only source
+     */
+    public async deleteInstances(request: Express.Request, response: Express.Response) {
+        const table = this.checkAuth(request);
+        if (!table) {
+            response.status(401);
+            response.end();
+            return;
+        }
+
+        if (!this.checkWritable(table, response)) {
+            return;
+        }
+
+        const filter = this.getRequiredFilter(table, request, response);
+        if (!filter) {
+            return;
+        }
 
-        await DataSource.getInstance().pushInstances(table, instances);
+        const affected = await DataSource.getInstance().deleteInstances(table, filter);
 
         DataSource.getInstance().noticeUpdate(table);
 
-        response.status(200)
-        response.end();
+        response.json({
+            affected: affected,
+        });
+    }
+
+    /**
+     * Checks that the source can be written (views and queries are read-only)
+     * @param table The table
+     * @param response The response. If the source is read-only, the error is sent.
+     * @returns True if the source can be written
+     */
+    private checkWritable(table: DataSourceTable, response: Express.Response): boolean {
+        if (isReadOnlySource(table)) {
+            response.status(403);
+            response.send("The source is read-only (" + table.sourceType + ").");
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Gets the filter of a modification request.
+     * Filters matching every instance are not allowed, to prevent accidental changes to the whole table.
+     * @param table The table
+     * @param request The request
+     * @param response The response. If the filter is not valid, the error is sent.
+     * @returns The filter, or null if the filter is not valid
+     */
+    private getRequiredFilter(table: DataSourceTable, request: Express.Request, response: Express.Response): QueryTree {
+        let filter: QueryTree;
+
+        try {
+            filter = DataSource.getInstance().sanitizeFilter(request.body.filter);
+        } catch (ex) {
+            response.status(400);
+            response.send(ex.message);
+            return null;
+        }
+
+        if (!toSQLCondition(table.fields, filter).sql) {
+            response.status(400);
+            response.send("A filter is required.");
+            return null;
+        }
+
+        return filter;
     }
 
     /**
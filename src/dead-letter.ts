@@ -0,0 +1,277 @@
+// Dead-letter store
+
+"use strict";
+
+import { DataSource, DataSourceTable, getReceivedFields, PushResult, SanitizeContext } from "./source";
+import { getPayloadDecoder } from "./utils/payload-decoders";
+import { applyPayloadMapping } from "./utils/payload-mapping";
+import { escapeIdentifier } from "./utils/sql";
+import { matchTopic } from "./utils/topics";
+
+export type DeadLetterPayloadFormat = "json" | "text" | "base64";
+
+export interface DeadLetterEntry {
+    id: string;
+
+    /**
+     * Origin of the payload. "mqtt:" + topic or "http:push"
+     */
+    origin: string;
+
+    /**
+     * Payload. For json format, the instance (object with the names of the fields as keys).
+     * For text and base64 formats, the raw message.
+     */
+    payload: string;
+    payloadFormat: DeadLetterPayloadFormat;
+
+    errorCode: string;
+    errorMessage: string;
+
+    date: Date;
+}
+
+export const DEAD_LETTER_ORIGIN_HTTP = "http:push";
+export const DEAD_LETTER_ORIGIN_MQTT_PREFIX = "mqtt:";
+
+/**
+ * Serializes a rejected instance as a json payload
+ * @param instance The instance, as received
+ * @returns The JSON payload. Never undefined, so the payload column is always set.
+ */
+export function toDeadLetterPayload(instance: any): string {
+    const payload = JSON.stringify(instance);
+    return payload === undefined ? "null" : payload;
+}
+
+/**
+ * Stores the rejected payloads of the sources,
+ * so they can be inspected and replayed
+ */
+export class DeadLetterStore {
+    public static instance: DeadLetterStore;
+
+    public static getInstance() {
+        if (DeadLetterStore.instance) {
+            return DeadLetterStore.instance;
+        }
+
+        DeadLetterStore.instance = new DeadLetterStore();
+
+        return DeadLetterStore.instance;
+    }
+
+    private ready: Map<string, Promise<void>>;
+
+    constructor() {
+        this.ready = new Map();
+    }
+
+    /**
+     * Checks if the dead-letter table is configured for a table
+     * @param table The table
+     * @returns True if configured
+     */
+    public isEnabled(table: DataSourceTable): boolean {
+        return !!table.deadLetterTable;
+    }
+
+    /**
+     * Creates the dead-letter table if it does not exist
+     * @param name Name of the dead-letter table
+     */
+    private async prepare(name: string): Promise<void> {
+        if (!this.ready.has(name)) {
+            const pool = DataSource.getInstance().pool;
+            this.ready.set(name, (async () => {
+                await pool.query("CREATE TABLE IF NOT EXISTS " + escapeIdentifier(name) + " (" +
+                    "\"id\" BIGSERIAL PRIMARY KEY, " +
+                    "\"source\" VARCHAR(255) NOT NULL, " +
+                    "\"origin\" TEXT NOT NULL, " +
+                    "\"payload\" TEXT NOT NULL, " +
+                    "\"payload_format\" VARCHAR(16) NOT NULL, " +
+                    "\"error_code\" VARCHAR(64) NOT NULL, " +
+                    "\"error_message\" TEXT NOT NULL, " +
+                    "\"date\" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW())");
+                await pool.query("CREATE INDEX IF NOT EXISTS " + escapeIdentifier(name + "_source") + " ON " + escapeIdentifier(name) + "(\"source\", \"id\")");
+            })().catch(err => {
+                this.ready.delete(name);
+                throw err;
+            }));
+        }
+
+        return this.ready.get(name);
+    }
+
+    /**
+     * Adds an entry. Never fails: errors are logged.
+     * @param table The table the payload was sent to
+     * @param origin Origin of the payload
+     * @param payload The payload
+     * @param payloadFormat Format of the payload
+     * @param errorCode Error code
+     * @param errorMessage Error message
+     */
+    public async add(table: DataSourceTable, origin: string, payload: string, payloadFormat: DeadLetterPayloadFormat, errorCode: string, errorMessage: string): Promise<void> {
+        if (!this.isEnabled(table)) {
+            return;
+        }
+
+        try {
+            await this.prepare(table.deadLetterTable);
+
+            await DataSource.getInstance().pool.query(
+                "INSERT INTO " + escapeIdentifier(table.deadLetterTable) + "(\"source\", \"origin\", \"payload\", \"payload_format\", \"error_code\", \"error_message\") VALUES ($1, $2, $3, $4, $5, $6)",
+                [table.publicKey, origin, (payload === undefined || payload === null) ? "" : payload, payloadFormat, errorCode + "", errorMessage + ""],
+            );
+        } catch (ex) {
+            console.error(ex);
+            console.error(`[${(new Date()).toISOString()}] [DEAD-LETTER] [${table.table}] Could not store rejected payload from ${origin}: ${payload}`);
+        }
+    }
+
+    /**
+     * Lists entries
+     * @param table The table
+     * @param skip Entries to skip
+     * @param limit Max number of entries
+     * @returns The entries, oldest first
+     */
+    public async list(table: DataSourceTable, skip: number, limit: number): Promise<DeadLetterEntry[]> {
+        await this.prepare(table.deadLetterTable);
+
+        const results = await DataSource.getInstance().pool.query(
+            "SELECT * FROM " + escapeIdentifier(table.deadLetterTable) + " WHERE \"source\" = $1 ORDER BY \"id\" ASC LIMIT $2 OFFSET $3",
+            [table.publicKey, limit, skip],
+        );
+
+        return results.rows.map(toEntry);
+    }
+
+    /**
+     * Counts entries
+     * @param table The table
+     * @returns The number of entries
+     */
+    public async count(table: DataSourceTable): Promise<number> {
+        await this.prepare(table.deadLetterTable);
+
+        const results = await DataSource.getInstance().pool.query(
+            "SELECT COUNT(*) AS \"count\" FROM " + escapeIdentifier(table.deadLetterTable) + " WHERE \"source\" = $1",
+            [table.publicKey],
+        );
+
+        return parseInt(results.rows[0].count, 10) || 0;
+    }
+
+    /**
+     * Gets an entry
+     * @param table The table
+     * @param id ID of the entry
+     * @returns The entry, or null if not found
+     */
+    public async get(table: DataSourceTable, id: string): Promise<DeadLetterEntry> {
+        await this.prepare(table.deadLetterTable);
+
+        const results = await DataSource.getInstance().pool.query(
+            "SELECT * FROM " + escapeIdentifier(table.deadLetterTable) + " WHERE \"source\" = $1 AND \"id\" = $2",
+            [table.publicKey, id],
+        );
+
+        return results.rows.length > 0 ? toEntry(results.rows[0]) : null;
+    }
+
+    /**
+     * Removes entries
+     * @param table The table
+     * @param ids IDs of the entries to remove. Null to remove them all.
+     * @param before If set, only the entries older than this date are removed
+     * @returns The number of removed entries
+     */
+    public async purge(table: DataSourceTable, ids: string[], before: Date): Promise<number> {
+        await this.prepare(table.deadLetterTable);
+
+        let sentence = "DELETE FROM " + escapeIdentifier(table.deadLetterTable) + " WHERE \"source\" = $1";
+        const values: any[] = [table.publicKey];
+
+        if (ids) {
+            values.push(ids);
+            sentence += " AND \"id\" = ANY($" + values.length + "::bigint[])";
+        }
+
+        if (before) {
+            values.push(before);
+            sentence += " AND \"date\" < $" + values.length;
+        }
+
+        const results = await DataSource.getInstance().pool.query(sentence, values);
+
+        return results.rowCount || 0;
+    }
+
+    /**
+     * Replays an entry: the payload is sanitized and pushed again to the table.
+     * Nothing is inserted if any instance is rejected.
+     * If the instances are inserted, the entry is removed.
+     * @param table The table
+     * @param entry The entry
+     * @returns The push result
+     */
+    public async replay(table: DataSourceTable, entry: DeadLetterEntry): Promise<PushResult> {
+        let rows: any[];
+        let context: SanitizeContext = null;
+
+        if (entry.origin.startsWith(DEAD_LETTER_ORIGIN_MQTT_PREFIX)) {
+            const topic = entry.origin.substr(DEAD_LETTER_ORIGIN_MQTT_PREFIX.length);
+            context = {
+                topic: topic,
+                captures: table.topicPattern ? matchTopic(table.topicPattern, topic) : null,
+            };
+        }
+
+        if (entry.payloadFormat === "json") {
+            rows = [JSON.parse(entry.payload)];
+        } else {
+            // Raw message, decode it again with the current rules of the table
+            const message = Buffer.from(entry.payload, entry.payloadFormat === "base64" ? "base64" : "utf8");
+            const payload = getPayloadDecoder(table.payloadFormat)(message, getReceivedFields(table));
+            rows = applyPayloadMapping(table.mapping, payload, context ? context.topic : "", context ? context.captures : null);
+        }
+
+        const sanitized = DataSource.getInstance().sanitizeInstances(table, rows, context);
+
+        if (sanitized.rejected.length > 0) {
+            return {
+                mode: "atomic",
+                inserted: 0,
+                batches: [],
+                rejected: sanitized.rejected,
+                rows: [],
+                indexes: [],
+                ignored: [],
+            };
+        }
+
+        const result = await DataSource.getInstance().pushInstances(table, sanitized.instances);
+
+        if (result.rejected.length === 0) {
+            await this.purge(table, [entry.id], null);
+            DataSource.getInstance().noticeUpdate(table);
+        }
+
+        return result;
+    }
+}
+
+function toEntry(row: any): DeadLetterEntry {
+    return {
+        id: row.id + "",
+        origin: row.origin,
+        payload: row.payload,
+        payloadFormat: row.payload_format,
+        errorCode: row.error_code,
+        errorMessage: row.error_message,
+        date: row.date,
+    };
+}
+
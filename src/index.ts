@@ -7,16 +7,52 @@ import { CrashGuard } from './crash-guard';
 import { Application } from "./app";
 import { DataSource } from './source';
 import { RealTimeController } from './mqtt';
+import { ChangeCaptureController } from './change-capture';
+import { ReplicationController } from './replication';
+import { MaterializedViewRefresher } from './materialized-views';
+import { autoCreateTable, checkTableMappings } from './schema';
 
-function main() {
+async function main() {
     Config.getInstance();
 
+    // Load the pending instances before anything can be ingested
+    DataSource.getInstance().openOutboxes();
+
+    // Create or migrate the tables with autoCreate
+    for (const table of DataSource.getInstance().tables) {
+        if (table.autoCreate) {
+            await autoCreateTable(table);
+        }
+    }
+
+    if (Config.getInstance().schemaCheck) {
+        // Fail fast if the mappings do not match the database
+        const problems = await checkTableMappings(DataSource.getInstance().tables);
+
+        if (problems.length > 0) {
+            throw new Error("The table mappings do not match the database:\n" + problems.join("\n"));
+        }
+    }
+
     DataSource.getInstance().runUpdateService().catch(err => {
         console.error(err);
     });
 
     RealTimeController.getInstance(); // Mqtt service
 
+    // Change capture service (retry until the triggers are ready)
+    CrashGuard.runUntilSuccess(() => {
+        return ChangeCaptureController.getInstance().start();
+    });
+
+    // Logical replication consumer
+    CrashGuard.runUntilSuccess(() => {
+        return ReplicationController.getInstance().start();
+    });
+
+    // Materialized views refresh schedule
+    MaterializedViewRefresher.getInstance().start();
+
     // Web app
     const app = new Application();
     app.start();
@@ -24,4 +60,7 @@ function main() {
     CrashGuard.enable();
 }
 
-main();
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,418 @@
+// Ingestion pipeline
+
+"use strict";
+
+import FS from "fs";
+import { Config } from "./config";
+import { CrashGuard } from "./crash-guard";
+import { UpdateOutbox } from "./outbox";
+import { DataSource, DataSourceTable, isTransientError, PushResult } from "./source";
+import { InstanceType } from "./utils/deepint-sources";
+
+export type OverflowPolicy = "block" | "drop-oldest" | "spill";
+
+/**
+ * Time (milliseconds) to wait before retrying a batch after a transient error
+ */
+const INGESTION_RETRY_DELAY = 5000;
+
+/**
+ * Called with the result of the instances pushed to the pipeline
+ * @param err Error, if the instances could not be stored (or were dropped)
+ * @param result Result of the insertion
+ */
+export type IngestionCallback = (err: Error, result?: PushResult) => void;
+
+export interface IngestionPipelineOptions {
+    /**
+     * Max number of instances in the queue
+     */
+    queueSize: number;
+
+    /**
+     * Max number of instances inserted at once
+     */
+    batchSize: number;
+
+    /**
+     * Time (milliseconds) to wait for more instances before inserting a batch
+     */
+    batchWindow: number;
+
+    /**
+     * What to do when the queue is full
+     */
+    overflow: OverflowPolicy;
+
+    /**
+     * File to spill the instances to (spill policy)
+     */
+    spillFile: string;
+}
+
+interface IngestionItem {
+    instances: InstanceType[][];
+    callback: IngestionCallback;
+}
+
+/**
+ * Bounded queue of instances to insert into a table.
+ * The instances are inserted in batches, by size or time window.
+ */
+export class IngestionPipeline {
+    public table: DataSourceTable;
+    public options: IngestionPipelineOptions;
+
+    /**
+     * Number of instances in the queue
+     */
+    public depth: number;
+
+    /**
+     * Number of instances spilled to disk, pending to be inserted
+     */
+    public spilled: number;
+
+    /**
+     * Number of instances dropped because the queue was full
+     */
+    public dropped: number;
+
+    public closed: boolean;
+
+    private queue: IngestionItem[];
+    private spilledCallbacks: IngestionCallback[];
+    private waiting: (() => void)[];
+    private wakeUp: () => void;
+
+    constructor(table: DataSourceTable, options: IngestionPipelineOptions) {
+        this.table = table;
+        this.options = options;
+
+        this.depth = 0;
+        this.spilled = 0;
+        this.dropped = 0;
+        this.closed = false;
+
+        this.queue = [];
+        this.spilledCallbacks = [];
+        this.waiting = [];
+        this.wakeUp = null;
+
+        // Instances spilled before a restart
+        if (options.overflow === "spill" && FS.existsSync(options.spillFile)) {
+            const lines: string[] = [];
+
+            for (const line of FS.readFileSync(options.spillFile).toString().split("\n")) {
+                const instances = parseSpilledLine(line);
+                if (instances) {
+                    lines.push(line);
+                    this.spilled += instances.length;
+                    this.spilledCallbacks.push(null);
+                }
+            }
+
+            // Rewrite without the partially written lines, so the next spilled line is not appended to one of them
+            FS.writeFileSync(options.spillFile, lines.map(line => {
+                return line + "\n";
+            }).join(""));
+        }
+    }
+
+    /**
+     * Adds instances to the queue.
+     * With the block policy, waits until the queue has room for them.
+     * @param instances The instances
+     * @param callback Called with the result once the instances are inserted
+     */
+    public async push(instances: InstanceType[][], callback: IngestionCallback): Promise<void> {
+        if (this.spilledCallbacks.length > 0) {
+            // Keep the order with the spilled instances
+            this.spill(instances, callback);
+            return;
+        }
+
+        while (this.depth > 0 && this.depth + instances.length > this.options.queueSize) {
+            if (this.options.overflow === "drop-oldest") {
+                const dropped = this.queue.shift();
+                this.depth -= dropped.instances.length;
+                this.dropped += dropped.instances.length;
+                dropped.callback(new Error("Dropped: The ingestion queue is full"));
+            } else if (this.options.overflow === "spill") {
+                this.spill(instances, callback);
+                return;
+            } else {
+                await new Promise<void>((resolve) => {
+                    this.waiting.push(resolve);
+                });
+            }
+        }
+
+        this.queue.push({
+            instances: instances,
+            callback: callback,
+        });
+        this.depth += instances.length;
+
+        if (this.wakeUp && (this.queue.length === 1 || this.depth >= this.options.batchSize)) {
+            this.wakeUp();
+        }
+    }
+
+    /**
+     * Inserts the queued instances until the pipeline is closed
+     */
+    public async run() {
+        while (!this.closed) {
+            try {
+                await this.runStep();
+            } catch (ex) {
+                // A bad batch must not stop the pipeline
+                console.error(ex);
+                await new Promise((resolve) => {
+                    setTimeout(resolve, INGESTION_RETRY_DELAY);
+                });
+            }
+        }
+    }
+
+    /**
+     * Waits for instances and inserts a batch
+     */
+    private async runStep() {
+        if (this.queue.length === 0) {
+            this.restoreSpilled();
+        }
+
+        if (this.queue.length === 0) {
+            // Wait for instances
+            await new Promise<void>((resolve) => {
+                this.wakeUp = resolve;
+            });
+            this.wakeUp = null;
+            return;
+        }
+
+        if (this.depth < this.options.batchSize) {
+            // Wait for the batch to fill or the window to end
+            await new Promise<void>((resolve) => {
+                this.wakeUp = resolve;
+                setTimeout(resolve, this.options.batchWindow);
+            });
+            this.wakeUp = null;
+        }
+
+        const items: IngestionItem[] = [];
+        let count = 0;
+
+        while (this.queue.length > 0 && (items.length === 0 || count + this.queue[0].instances.length <= this.options.batchSize)) {
+            const item = this.queue.shift();
+            items.push(item);
+            count += item.instances.length;
+        }
+
+        this.depth -= count;
+
+        // Room for the blocked messages
+        const waiting = this.waiting;
+        this.waiting = [];
+        for (const resolve of waiting) {
+            resolve();
+        }
+
+        await this.insert(items);
+    }
+
+    /**
+     * Inserts a batch of items with a single insert.
+     * Invalid instances do not prevent the rest from being inserted.
+     * The batch is retried while the error is transient (lost connection, pool timeout...).
+     * @param items The items
+     */
+    private async insert(items: IngestionItem[]) {
+        const instances: InstanceType[][] = [];
+
+        for (const item of items) {
+            for (const instance of item.instances) {
+                instances.push(instance);
+            }
+        }
+
+        let result: PushResult = null;
+        let error: Error = null;
+
+        await CrashGuard.runUntilSuccess(async () => {
+            try {
+                result = await DataSource.getInstance().pushInstances(this.table, instances, "partial");
+            } catch (ex) {
+                if (isTransientError(ex) && !this.closed) {
+                    if (Config.getInstance().logEvents) {
+                        console.log(`[${(new Date()).toISOString()}] [INGESTION] [${this.table.table}] Could not insert ${instances.length} instances, retrying: ${ex.message}`);
+                    }
+                    throw ex;
+                }
+                error = ex;
+            }
+        }, INGESTION_RETRY_DELAY);
+
+        if (error) {
+            for (const item of items) {
+                item.callback(error);
+            }
+            return;
+        }
+
+        DataSource.getInstance().noticeUpdate(this.table);
+
+        let offset = 0;
+
+        for (const item of items) {
+            const start = offset;
+            const end = offset + item.instances.length;
+
+            offset = end;
+
+            const rejected = result.rejected.filter(r => {
+                return r.index >= start && r.index < end;
+            }).map(r => {
+                return {
+                    index: r.index - start,
+                    code: r.code,
+                    message: r.message,
+                };
+            });
+
+            // The rows returned by the database, not the pushed instances
+            const rows: InstanceType[][] = [];
+            const indexes: number[] = [];
+
+            result.indexes.forEach((index, i) => {
+                if (index >= start && index < end) {
+                    rows.push(result.rows[i]);
+                    indexes.push(index - start);
+                }
+            });
+
+            const ignored = result.ignored.filter(index => {
+                return index >= start && index < end;
+            }).map(index => {
+                return index - start;
+            });
+
+            item.callback(null, {
+                mode: "partial",
+                inserted: rows.length,
+                batches: [],
+                rejected: rejected,
+                rows: rows,
+                indexes: indexes,
+                ignored: ignored,
+            });
+        }
+    }
+
+    private spill(instances: InstanceType[][], callback: IngestionCallback) {
+        FS.appendFileSync(this.options.spillFile, JSON.stringify(instances) + "\n");
+        this.spilledCallbacks.push(callback);
+        this.spilled += instances.length;
+    }
+
+    /**
+     * Moves spilled instances back to the queue, as many as they fit
+     */
+    private restoreSpilled() {
+        if (this.spilledCallbacks.length === 0) {
+            return;
+        }
+
+        const lines = FS.readFileSync(this.options.spillFile).toString().split("\n").filter(line => {
+            return !!line;
+        });
+
+        let restored = 0;
+
+        while (restored < lines.length) {
+            const instances = parseSpilledLine(lines[restored]);
+
+            if (!instances) {
+                // Corrupted line, its instances cannot be recovered
+                const callback = this.spilledCallbacks.shift();
+                if (callback) {
+                    callback(new Error("The spilled instances could not be read"));
+                }
+                restored++;
+                continue;
+            }
+
+            if (this.depth > 0 && this.depth + instances.length > this.options.queueSize) {
+                break;
+            }
+
+            const callback = this.spilledCallbacks.shift();
+
+            this.queue.push({
+                instances: instances,
+                callback: callback || ((err) => {
+                    if (err) {
+                        console.error(err);
+                    }
+                }),
+            });
+            this.depth += instances.length;
+            this.spilled -= instances.length;
+
+            restored++;
+        }
+
+        FS.writeFileSync(this.options.spillFile, lines.slice(restored).map(line => {
+            return line + "\n";
+        }).join(""));
+
+        if (restored === lines.length && this.spilledCallbacks.length > 0) {
+            // The file has fewer lines than expected, do not keep spilling new instances behind them
+            for (const callback of this.spilledCallbacks) {
+                if (callback) {
+                    callback(new Error("The spilled instances could not be read"));
+                }
+            }
+            this.spilledCallbacks = [];
+            this.spilled = 0;
+        }
+    }
+}
+
+/**
+ * Parses a line of the spill file
+ * @param line The line
+ * @returns The instances, or null if the line is empty or partially written (crash while writing)
+ */
+function parseSpilledLine(line: string): InstanceType[][] {
+    if (!line) {
+        return null;
+    }
+
+    let instances: any;
+
+    try {
+        instances = JSON.parse(line);
+    } catch (ex) {
+        return null;
+    }
+
+    return Array.isArray(instances) ? instances : null;
+}
+
+/**
+ * Gets the pipeline options from the configuration
+ * @param table The table
+ * @returns The options
+ */
+export function getIngestionPipelineOptions(table: DataSourceTable): IngestionPipelineOptions {
+    return {
+        queueSize: Config.getInstance().ingestionQueueSize,
+        batchSize: Config.getInstance().ingestionBatchSize,
+        batchWindow: Config.getInstance().ingestionBatchWindow,
+        overflow: Config.getInstance().ingestionOverflow,
+        spillFile: UpdateOutbox.getJournalFile(Config.getInstance().ingestionSpillPath, table.publicKey, ".spill.jsonl"),
+    };
+}
@@ -0,0 +1,69 @@
+// Materialized views refresh
+
+"use strict";
+
+import { Config } from "./config";
+import { DataSource, DataSourceTable, getTableSQL } from "./source";
+
+/**
+ * Refreshes the materialized views with a refresh interval,
+ * noticing Deep Intelligence after each refresh
+ */
+export class MaterializedViewRefresher {
+    public static instance: MaterializedViewRefresher;
+
+    public static getInstance() {
+        if (MaterializedViewRefresher.instance) {
+            return MaterializedViewRefresher.instance;
+        }
+
+        MaterializedViewRefresher.instance = new MaterializedViewRefresher();
+
+        return MaterializedViewRefresher.instance;
+    }
+
+    public tables: DataSourceTable[];
+
+    constructor() {
+        this.tables = DataSource.getInstance().tables.filter(t => {
+            return t.sourceType === "materialized-view" && t.refreshInterval > 0;
+        });
+    }
+
+    /**
+     * Starts the refresh schedule of each view
+     */
+    public start() {
+        for (const table of this.tables) {
+            this.schedule(table);
+        }
+    }
+
+    private schedule(table: DataSourceTable) {
+        // The next refresh is scheduled when the current one ends, so they never overlap
+        setTimeout(() => {
+            this.refresh(table).catch(err => {
+                console.error(err);
+                console.error(`[${(new Date()).toISOString()}] [REFRESH] [${table.table}] Could not refresh the materialized view: ${err.message}`);
+            }).then(() => {
+                this.schedule(table);
+            });
+        }, table.refreshInterval * 1000);
+    }
+
+    /**
+     * Refreshes a materialized view and notices the update
+     * @param table The table
+     */
+    public async refresh(table: DataSourceTable) {
+        const start = Date.now();
+
+        await DataSource.getInstance().pool.query("REFRESH MATERIALIZED VIEW " + getTableSQL(table));
+
+        if (Config.getInstance().logEvents) {
+            console.log(`[${(new Date()).toISOString()}] [REFRESH] [${table.table}] Materialized view refreshed in ${Date.now() - start} ms.`);
+        }
+
+        DataSource.getInstance().noticeUpdate(table);
+    }
+}
@@ -1,8 +1,37 @@
 // MQTT controller
 
+import { mkdirSync, readFileSync } from "fs";
 import MQTT from "mqtt";
-import { Config } from "./config";
-import { DataSource } from "./source";
+import { Config, MQTTBrokerConfig } from "./config";
+import { DEAD_LETTER_ORIGIN_MQTT_PREFIX, DeadLetterStore, toDeadLetterPayload } from "./dead-letter";
+import { getIngestionPipelineOptions, IngestionPipeline } from "./ingestion";
+import { DataSource, DataSourceTable, getReceivedFields, mergeRejectedInstances, PushRejectedInstance, SanitizeResult } from "./source";
+import { getPayloadDecoder } from "./utils/payload-decoders";
+import { applyPayloadMapping, resolvePath } from "./utils/payload-mapping";
+import { matchTopic } from "./utils/topics";
+
+const TEXT_PAYLOAD_FORMATS = ["json", "csv", "raw"];
+
+export interface RealTimeTableStats {
+    messages: number;
+    decodeErrors: number;
+    lastDecodeError: string;
+    lastDecodeErrorDate: Date;
+}
+
+export interface BrokerSubscription {
+    topic: string;
+    qos: MQTT.QoS;
+    subscribed: boolean;
+    error: string;
+}
+
+export interface BrokerConnection {
+    profile: MQTTBrokerConfig;
+    client: MQTT.Client;
+    connected: boolean;
+    subscriptions: BrokerSubscription[];
+}
 
 export class RealTimeController {
     public static instance: RealTimeController;
@@ -17,87 +46,389 @@ export class RealTimeController {
         return RealTimeController.instance;
     }
 
-    public client: MQTT.Client;
-    public topics: string[];
+    public brokers: Map<string, BrokerConnection>;
+    public stats: Map<DataSourceTable, RealTimeTableStats>;
+    public pipelines: Map<DataSourceTable, IngestionPipeline>;
 
     constructor() {
-        this.topics = Config.getInstance().tablesConfig.map(t => {
-            return t.topic;
-        }).filter(t => {
-            return !!t;
-        });
-        this.client = MQTT.connect(Config.getInstance().mqttURL, {
-            username: Config.getInstance().mqttUser,
-            password: Config.getInstance().mqttPassword,
+        this.brokers = new Map();
+        this.stats = new Map();
+        this.pipelines = new Map();
+
+        if (Config.getInstance().ingestionOverflow === "spill") {
+            mkdirSync(Config.getInstance().ingestionSpillPath, { recursive: true });
+        }
+
+        for (const table of DataSource.getInstance().tables) {
+            if (!table.topicPattern) {
+                continue;
+            }
+
+            const pipeline = new IngestionPipeline(table, getIngestionPipelineOptions(table));
+            this.pipelines.set(table, pipeline);
+            pipeline.run().catch(err => {
+                console.error(err);
+            });
+
+            let broker = this.brokers.get(table.broker);
+
+            if (!broker) {
+                broker = {
+                    profile: Config.getInstance().mqttBrokers.find(b => b.name === table.broker),
+                    client: null,
+                    connected: false,
+                    subscriptions: [],
+                };
+                this.brokers.set(table.broker, broker);
+            }
+
+            const subscription = broker.subscriptions.find(s => s.topic === table.topicPattern.filter);
+
+            if (subscription) {
+                subscription.qos = <MQTT.QoS>Math.max(subscription.qos, table.qos);
+            } else {
+                broker.subscriptions.push({
+                    topic: table.topicPattern.filter,
+                    qos: table.qos,
+                    subscribed: false,
+                    error: "",
+                });
+            }
+        }
+
+        for (const broker of this.brokers.values()) {
+            this.connect(broker);
+        }
+    }
+
+    /**
+     * Connects to a broker
+     * @param broker The broker
+     */
+    private connect(broker: BrokerConnection) {
+        const profile = broker.profile;
+
+        broker.client = MQTT.connect(profile.url, {
+            clientId: profile.clientId,
+            username: profile.username,
+            password: profile.password,
+            ca: profile.ca ? readFileSync(profile.ca) : undefined,
+            cert: profile.cert ? readFileSync(profile.cert) : undefined,
+            key: profile.key ? readFileSync(profile.key) : undefined,
+            rejectUnauthorized: profile.rejectUnauthorized !== false,
+            protocolVersion: profile.protocolVersion || 4,
+            clean: profile.clean !== false,
+            keepalive: profile.keepalive !== undefined ? profile.keepalive : 60,
             reconnectPeriod: 1000,
         });
 
-        this.client.on("connect", this.onConnect.bind(this));
-        this.client.on("error", this.onError.bind(this));
-        this.client.on("close", this.onError.bind(this));
-        this.client.on("message", this.onMessage.bind(this));
+        broker.client.on("connect", this.onConnect.bind(this, broker));
+        broker.client.on("error", this.onError.bind(this, broker));
+        broker.client.on("close", this.onError.bind(this, broker));
+
+        // Messages are handled one at a time, so a full ingestion queue
+        // stops reading from the broker (backpressure)
+        broker.client.handleMessage = (packet: MQTT.IPublishPacket, callback) => {
+            this.onMessage(broker, packet.topic, <Buffer>packet.payload, packet).then(() => {
+                callback();
+            }).catch(err => {
+                console.error(err);
+                callback();
+            });
+        };
+    }
+
+    /**
+     * Gets the broker connection of a table
+     * @param table The table
+     * @returns The broker connection, or null if the table is not subscribed to any topic
+     */
+    public getBroker(table: DataSourceTable): BrokerConnection {
+        return this.brokers.get(table.broker) || null;
     }
 
-    public async onError(err) {
+    public async onError(broker: BrokerConnection, err) {
+        broker.connected = false;
+
+        for (const subscription of broker.subscriptions) {
+            subscription.subscribed = false;
+        }
+
         if (err) {
             if (Config.getInstance().logEvents) {
-                console.log(`[${(new Date()).toISOString()}] [MQTT] Connection error: ${err.message}.`);
+                console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Connection error: ${err.message}.`);
             }
         } else {
             if (Config.getInstance().logEvents) {
-                console.log(`[${(new Date()).toISOString()}] [MQTT] Connection closed.`);
+                console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Connection closed.`);
             }
         }
     }
 
-    public async onConnect() {
+    public async onConnect(broker: BrokerConnection) {
+        broker.connected = true;
+
         if (Config.getInstance().logEvents) {
-            console.log(`[${(new Date()).toISOString()}] [MQTT] Connected to ${Config.getInstance().mqttURL}`);
+            console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Connected to ${broker.profile.url}`);
         }
 
-        for (const topic of this.topics) {
-            this.client.subscribe(topic, err => {
+        for (const subscription of broker.subscriptions) {
+            broker.client.subscribe(subscription.topic, { qos: subscription.qos }, err => {
                 if (err) {
+                    subscription.subscribed = false;
+                    subscription.error = err.message;
                     if (Config.getInstance().logEvents) {
-                        console.log(`[${(new Date()).toISOString()}] [MQTT] Error (Subscribe): ${err.message}`);
+                        console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Error (Subscribe): ${err.message}`);
                     }
                 } else {
+                    subscription.subscribed = true;
+                    subscription.error = "";
                     if (Config.getInstance().logEvents) {
-                        console.log(`[${(new Date()).toISOString()}] [MQTT] Subscribed to ${topic}`);
+                        console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Subscribed to ${subscription.topic}`);
                     }
                 }
             });
         }
     }
 
-    public async onMessage(topic: string, message: Buffer) {
-        const msgStr = message.toString();
+    /**
+     * Gets the ingestion pipeline of a table
+     * @param table The table
+     * @returns The pipeline, or null if the table is not subscribed to any topic
+     */
+    public getPipeline(table: DataSourceTable): IngestionPipeline {
+        return this.pipelines.get(table) || null;
+    }
+
+    /**
+     * Gets the real-time stats of a table
+     * @param table The table
+     * @returns The stats
+     */
+    public getStats(table: DataSourceTable): RealTimeTableStats {
+        let stats = this.stats.get(table);
+
+        if (!stats) {
+            stats = {
+                messages: 0,
+                decodeErrors: 0,
+                lastDecodeError: "",
+                lastDecodeErrorDate: null,
+            };
+            this.stats.set(table, stats);
+        }
+
+        return stats;
+    }
+
+    public async onMessage(broker: BrokerConnection, topic: string, message: Buffer, packet: MQTT.IPublishPacket) {
+        const table = DataSource.getInstance().getTableFromTopic(topic, broker.profile.name);
+
+        if (!table) {
+            return;
+        }
+
+        const stats = this.getStats(table);
+        stats.messages++;
+
+        const isText = TEXT_PAYLOAD_FORMATS.includes(table.payloadFormat);
+        const msgStr = isText ? message.toString() : message.toString("base64");
+        const origin = DEAD_LETTER_ORIGIN_MQTT_PREFIX + topic;
 
         if (Config.getInstance().logDebug) {
-            console.log(`[${(new Date()).toISOString()}] [MQTT] Topic: ${topic},  Message ${msgStr}`);
+            console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Topic: ${topic},  Message ${msgStr}`);
         }
 
-        let msgJson;
+        const captures = matchTopic(table.topicPattern, topic);
+
+        let payload;
 
         try {
-            msgJson = JSON.parse(msgStr);
+            payload = getPayloadDecoder(table.payloadFormat)(message, getReceivedFields(table));
         } catch (ex) {
+            stats.decodeErrors++;
+            stats.lastDecodeError = ex.message;
+            stats.lastDecodeErrorDate = new Date();
             if (Config.getInstance().logEvents) {
-                console.log(`[${(new Date()).toISOString()}] [MQTT] Error: Invalid message | Topic: ${topic},  Message ${msgStr}`);
+                console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Error: Invalid message (${ex.message}) | Topic: ${topic},  Message ${msgStr}`);
             }
+            this.publishResult(broker, table, captures, packet, null, {
+                status: "error",
+                error: {
+                    code: "INVALID_PAYLOAD",
+                    message: ex.message,
+                },
+            });
+            await DeadLetterStore.getInstance().add(table, origin, msgStr, isText ? "text" : "base64", "INVALID_PAYLOAD", ex.message);
             return;
         }
 
-        const table = DataSource.getInstance().getTableFromTopic(topic);
+        let rows: any[];
+        let sanitized: SanitizeResult;
 
-        if (!table) {
+        try {
+            rows = applyPayloadMapping(table.mapping, payload, topic, captures);
+
+            sanitized = DataSource.getInstance().sanitizeInstances(table, rows, {
+                topic: topic,
+                captures: captures,
+            });
+        } catch (ex) {
+            console.error(ex);
+            this.publishResult(broker, table, captures, packet, payload, {
+                status: "error",
+                error: {
+                    code: "INTERNAL_ERROR",
+                    message: ex.message,
+                },
+            });
+            await DeadLetterStore.getInstance().add(table, origin, msgStr, isText ? "text" : "base64", "INTERNAL_ERROR", ex.message);
+            return;
+        }
+
+        if (Config.getInstance().logDebug) {
+            for (const change of sanitized.changes) {
+                console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Field "${change.field}" of instance ${change.index} changed: ${change.change} | Topic: ${topic}`);
+            }
+        }
+
+        if (sanitized.instances.length === 0 && sanitized.rejected.length > 0) {
+            // All the instances are invalid
+            this.onRejected(broker, table, captures, packet, payload, rows, sanitized.rejected, origin, msgStr);
+            return;
+        }
+
+        await this.getPipeline(table).push(sanitized.instances, (err, result) => {
+            if (err) {
+                if (Config.getInstance().logEvents) {
+                    console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Error: ${err.message} | Topic: ${topic},  Message ${msgStr}`);
+                }
+                this.publishResult(broker, table, captures, packet, payload, {
+                    status: "error",
+                    error: {
+                        code: (<any>err).code || "INTERNAL_ERROR",
+                        message: err.message,
+                    },
+                });
+                DeadLetterStore.getInstance().add(table, origin, msgStr, isText ? "text" : "base64", (<any>err).code || "INTERNAL_ERROR", err.message);
+                return;
+            }
+
+            const rejected = mergeRejectedInstances(sanitized, result.rejected);
+
+            if (rejected.length > 0) {
+                this.onRejected(broker, table, captures, packet, payload, rows, rejected, origin, msgStr);
+            } else {
+                this.publishResult(broker, table, captures, packet, payload, {
+                    status: "ok",
+                    rows: result.rows.map(row => {
+                        const obj = Object.create(null);
+                        for (const feature of table.fields) {
+                            obj[feature.name] = row[feature.index];
+                        }
+                        return obj;
+                    }),
+                    ignored: result.ignored.map(index => {
+                        return sanitized.indexes[index];
+                    }),
+                });
+            }
+        });
+    }
+
+    /**
+     * Handles the instances of a message rejected by the validation rules or by the database.
+     * They are logged, stored in the dead-letter table, and the error is published.
+     * @param broker The broker the message was received from
+     * @param table The table
+     * @param captures Named captures of the topic
+     * @param packet The received packet
+     * @param payload The decoded payload
+     * @param rows The rows extracted from the payload
+     * @param rejected The rejected instances (indexes of the rows)
+     * @param origin Origin for the dead-letter table
+     * @param msgStr The message, for logging
+     */
+    private onRejected(broker: BrokerConnection, table: DataSourceTable, captures: { [name: string]: string }, packet: MQTT.IPublishPacket, payload: any, rows: any[], rejected: PushRejectedInstance[], origin: string, msgStr: string) {
+        for (const r of rejected) {
+            if (Config.getInstance().logEvents) {
+                console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Error: Instance rejected (${r.code}: ${r.message}) | Topic: ${packet.topic},  Message ${msgStr}`);
+            }
+            DeadLetterStore.getInstance().add(table, origin, toDeadLetterPayload(rows[r.index]), "json", r.code, r.message);
+        }
+
+        this.publishResult(broker, table, captures, packet, payload, {
+            status: "error",
+            error: {
+                code: rejected[0].code,
+                message: rejected[0].message,
+                index: rejected[0].index,
+            },
+        });
+    }
+
+    /**
+     * Publishes the result of a message to the acknowledgement or error topic of the table.
+     * If the message has a MQTT 5 response topic, the result is published there as well.
+     * @param broker The broker the message was received from
+     * @param table The table
+     * @param captures Named captures of the message topic, to fill the result topic
+     * @param packet The message packet
+     * @param payload The decoded payload (null if it could not be decoded)
+     * @param result The result
+     */
+    private publishResult(broker: BrokerConnection, table: DataSourceTable, captures: { [name: string]: string }, packet: MQTT.IPublishPacket, payload: any, result: { status: "ok" | "error", rows?: any[], ignored?: number[], error?: { code: string, message: string, index?: number } }) {
+        const topics: string[] = [];
+
+        const resultTopic = result.status === "ok" ? table.ackTopic : table.errorTopic;
+
+        if (resultTopic) {
+            topics.push(resultTopic.replace(/\{([^{}\/+#]+)\}/g, (m, name) => {
+                return (captures && captures[name] !== undefined) ? captures[name] : m;
+            }));
+        }
+
+        const correlationData = packet && packet.properties ? packet.properties.correlationData : undefined;
+
+        if (packet && packet.properties && packet.properties.responseTopic) {
+            topics.push(packet.properties.responseTopic);
+        }
+
+        if (topics.length === 0) {
             return;
         }
 
-        const instances = DataSource.getInstance().sanitizeInstances(table, [msgJson]);
+        let correlationId = null;
+
+        if (payload && typeof payload === "object" && !Array.isArray(payload) && table.correlationField) {
+            const value = resolvePath(payload, table.correlationField);
+            if (value !== undefined && value !== null) {
+                correlationId = value + "";
+            }
+        }
+
+        if (correlationId === null && correlationData) {
+            correlationId = correlationData.toString();
+        }
 
-        await DataSource.getInstance().pushInstances(table, instances);
+        const message = JSON.stringify({
+            correlation_id: correlationId,
+            status: result.status,
+            rows: result.rows,
+            ignored: result.ignored,
+            error: result.error,
+            timestamp: (new Date()).toISOString(),
+        });
 
-        DataSource.getInstance().noticeUpdate(table);
+        for (const topic of topics) {
+            broker.client.publish(topic, message, {
+                qos: table.qos,
+                properties: correlationData ? { correlationData: correlationData } : undefined,
+            }, err => {
+                if (err && Config.getInstance().logEvents) {
+                    console.log(`[${(new Date()).toISOString()}] [MQTT] [${broker.profile.name}] Error (Publish): ${err.message}`);
+                }
+            });
+        }
     }
 }
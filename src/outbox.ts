@@ -0,0 +1,204 @@
+// Update outbox
+
+"use strict";
+
+import Crypto from "crypto";
+import FS from "fs";
+import Path from "path";
+import { InstanceType } from "./utils/deepint-sources";
+
+/**
+ * Number of acknowledged entries kept in the journal before it is compacted
+ */
+const OUTBOX_COMPACT_THRESHOLD = 10000;
+
+interface OutboxEntry {
+    seq: number;
+    instance: InstanceType[];
+}
+
+/**
+ * Queue of instances pending to be sent to Deep Intelligence.
+ * Each instance is written to a journal file before being queued
+ * and it is only removed after it is acknowledged,
+ * so the pending instances survive a restart of the service.
+ */
+export class UpdateOutbox {
+    /**
+     * Gets the journal file for a table
+     * @param dir Outbox directory
+     * @param publicKey Public key of the table
+     * @param extension File extension. Other journals of the table must use a different one, in case they share the directory.
+     * @returns The journal file path
+     */
+    public static getJournalFile(dir: string, publicKey: string, extension?: string): string {
+        return Path.resolve(dir, Crypto.createHash("sha256").update(publicKey, "utf8").digest("hex") + (extension || ".jsonl"));
+    }
+
+    private file: string;
+    private entries: OutboxEntry[];
+    private nextSeq: number;
+
+    /**
+     * Number of acknowledged entries still written in the journal
+     */
+    private ackedInJournal: number;
+
+    /**
+     * Constructor
+     * @param file Journal file. The pending instances are replayed from it.
+     */
+    constructor(file: string) {
+        this.file = file;
+        this.entries = [];
+        this.nextSeq = 1;
+        this.ackedInJournal = 0;
+
+        this.load();
+    }
+
+    /**
+     * Number of pending instances
+     */
+    public get length(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Adds an instance to the outbox
+     * @param instance The instance
+     */
+    public push(instance: InstanceType[]) {
+        this.pushAll([instance]);
+    }
+
+    /**
+     * Adds a list of instances to the outbox, with a single write to the journal
+     * @param instances The instances
+     */
+    public pushAll(instances: InstanceType[][]) {
+        if (instances.length === 0) {
+            return;
+        }
+
+        const entries: OutboxEntry[] = instances.map(instance => {
+            const entry: OutboxEntry = {
+                seq: this.nextSeq,
+                instance: instance,
+            };
+
+            this.nextSeq++;
+
+            return entry;
+        });
+
+        FS.appendFileSync(this.file, entries.map(e => {
+            return JSON.stringify({ s: e.seq, i: e.instance }) + "\n";
+        }).join(""));
+
+        for (const entry of entries) {
+            this.entries.push(entry);
+        }
+    }
+
+    /**
+     * Gets the oldest pending instances, without removing them
+     * @param limit Max number of instances
+     * @returns The instances
+     */
+    public peek(limit: number): InstanceType[][] {
+        return this.entries.slice(0, limit).map(e => {
+            return e.instance;
+        });
+    }
+
+    /**
+     * Acknowledges the oldest pending instances, removing them from the outbox
+     * @param count Number of instances to acknowledge
+     */
+    public ack(count: number) {
+        const acknowledged = this.entries.splice(0, count);
+
+        if (acknowledged.length === 0) {
+            return;
+        }
+
+        this.ackedInJournal += acknowledged.length;
+
+        if (this.entries.length === 0) {
+            // Nothing pending, the journal can be discarded
+            FS.writeFileSync(this.file, "");
+            this.ackedInJournal = 0;
+        } else if (this.ackedInJournal >= OUTBOX_COMPACT_THRESHOLD) {
+            // The queue may never drain under steady ingestion, keep the journal bounded
+            this.compact();
+        } else {
+            FS.appendFileSync(this.file, JSON.stringify({ a: acknowledged[acknowledged.length - 1].seq }) + "\n");
+        }
+    }
+
+    /**
+     * Rewrites the journal with only the pending entries.
+     * The new journal is written to a temporary file and renamed, so a crash never leaves it half written.
+     */
+    private compact() {
+        const tmpFile = this.file + ".tmp";
+
+        FS.writeFileSync(tmpFile, this.entries.map(e => {
+            return JSON.stringify({ s: e.seq, i: e.instance }) + "\n";
+        }).join(""));
+
+        FS.renameSync(tmpFile, this.file);
+
+        this.ackedInJournal = 0;
+    }
+
+    /**
+     * Loads the pending instances from the journal file
+     * and rewrites it with only the pending entries.
+     */
+    private load() {
+        let lines: string[] = [];
+
+        if (FS.existsSync(this.file)) {
+            lines = FS.readFileSync(this.file).toString().split("\n");
+        }
+
+        let acked = 0;
+
+        for (const line of lines) {
+            if (!line) {
+                continue;
+            }
+
+            let record;
+
+            try {
+                record = JSON.parse(line);
+            } catch (ex) {
+                // Partially written line (crash while writing)
+                continue;
+            }
+
+            if (!record || typeof record !== "object") {
+                continue;
+            }
+
+            if (typeof record.a === "number") {
+                acked = Math.max(acked, record.a);
+            } else if (typeof record.s === "number" && Array.isArray(record.i)) {
+                this.entries.push({
+                    seq: record.s,
+                    instance: record.i,
+                });
+                this.nextSeq = Math.max(this.nextSeq, record.s + 1);
+            }
+        }
+
+        this.entries = this.entries.filter(e => {
+            return e.seq > acked;
+        });
+
+        this.compact();
+    }
+}
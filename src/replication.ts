@@ -0,0 +1,273 @@
+// Logical replication consumer
+
+"use strict";
+
+import { Config } from "./config";
+import { DataSource, DataSourceTable, getTableSQL } from "./source";
+import { InstanceType, turnInto } from "./utils/deepint-sources";
+import { escapeWal2JsonName, parseWal2JsonChange, PgOutputDecoder, ReplicationChange } from "./utils/logical-decoding";
+import { escapeIdentifier } from "./utils/sql";
+
+const REPLICATION_CHANGES_LIMIT = 1000;
+
+/**
+ * Reads the changes of the tables with replication enabled
+ * from a logical replication slot, and sends them to Deep Intelligence.
+ * The slot is only advanced after the changes are stored in the update outbox,
+ * so a restart resumes from the last checkpoint.
+ */
+export class ReplicationController {
+    public static instance: ReplicationController;
+
+    public static getInstance() {
+        if (ReplicationController.instance) {
+            return ReplicationController.instance;
+        }
+
+        ReplicationController.instance = new ReplicationController();
+
+        return ReplicationController.instance;
+    }
+
+    public tables: DataSourceTable[];
+
+    public slot: string;
+    public plugin: string;
+    public publication: string;
+
+    public closed: boolean;
+
+    constructor() {
+        this.tables = DataSource.getInstance().tables.filter(t => {
+            return t.replication;
+        });
+
+        this.slot = Config.getInstance().replicationSlot;
+        this.plugin = Config.getInstance().replicationPlugin;
+        this.publication = Config.getInstance().replicationPublication;
+
+        this.closed = false;
+    }
+
+    /**
+     * Prepares the replication slot and starts consuming it
+     */
+    public async start() {
+        if (this.tables.length === 0) {
+            return;
+        }
+
+        await this.prepare();
+
+        if (Config.getInstance().logEvents) {
+            console.log(`[${(new Date()).toISOString()}] [REPLICATION] Consuming slot ${this.slot} (${this.plugin})`);
+        }
+
+        while (!this.closed) {
+            let count = 0;
+
+            try {
+                count = await this.consume();
+            } catch (ex) {
+                console.error(ex);
+            }
+
+            if (count < REPLICATION_CHANGES_LIMIT) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, Config.getInstance().replicationPollInterval);
+                });
+            }
+        }
+    }
+
+    /**
+     * Creates the publication (pgoutput) and the replication slot, if they do not exist.
+     * The tables missing from an existing publication are added to it.
+     */
+    private async prepare() {
+        const pool = DataSource.getInstance().pool;
+
+        if (this.plugin === "pgoutput") {
+            const publications = await pool.query("SELECT puballtables FROM pg_publication WHERE pubname = $1", [this.publication]);
+            if (publications.rows.length === 0) {
+                await pool.query("CREATE PUBLICATION " + escapeIdentifier(this.publication) + " FOR TABLE " + this.getTableNames().join(", "));
+            } else if (!publications.rows[0].puballtables) {
+                await this.extendPublication();
+            }
+        }
+
+        const slots = await pool.query("SELECT 1 FROM pg_replication_slots WHERE slot_name = $1", [this.slot]);
+
+        if (slots.rows.length === 0) {
+            await pool.query("SELECT pg_create_logical_replication_slot($1, $2)", [this.slot, this.plugin]);
+
+            if (Config.getInstance().logEvents) {
+                console.log(`[${(new Date()).toISOString()}] [REPLICATION] Created replication slot ${this.slot}`);
+            }
+        }
+
+        // Changes could have been made before the slot was ready
+        for (const table of this.tables) {
+            DataSource.getInstance().noticeFullUpdate(table);
+        }
+    }
+
+    /**
+     * Adds to the publication the tables appended to the mapping after it was created
+     */
+    private async extendPublication() {
+        const pool = DataSource.getInstance().pool;
+
+        const published = await pool.query("SELECT schemaname, tablename FROM pg_publication_tables WHERE pubname = $1", [this.publication]);
+        const currentSchema = (await pool.query("SELECT current_schema() AS schema")).rows[0].schema;
+
+        const missing: string[] = [];
+
+        for (const table of this.tables) {
+            const schema = table.schema || currentSchema;
+            const name = getTableSQL(table);
+
+            if (!published.rows.some(row => row.schemaname === schema && row.tablename === table.table) && !missing.includes(name)) {
+                missing.push(name);
+            }
+        }
+
+        if (missing.length === 0) {
+            return;
+        }
+
+        await pool.query("ALTER PUBLICATION " + escapeIdentifier(this.publication) + " ADD TABLE " + missing.join(", "));
+
+        if (Config.getInstance().logEvents) {
+            console.log(`[${(new Date()).toISOString()}] [REPLICATION] Added to publication ${this.publication}: ${missing.join(", ")}`);
+        }
+    }
+
+    /**
+     * Gets the SQL names of the tables, without duplicates
+     */
+    private getTableNames(): string[] {
+        const names: string[] = [];
+
+        for (const table of this.tables) {
+            const name = getTableSQL(table);
+            if (!names.includes(name)) {
+                names.push(name);
+            }
+        }
+
+        return names;
+    }
+
+    /**
+     * Reads the pending changes from the slot and checkpoints it
+     * @returns The number of read messages
+     */
+    private async consume(): Promise<number> {
+        const pool = DataSource.getInstance().pool;
+
+        let rows: { lsn: string, data: any }[];
+        let changes: ReplicationChange[] = [];
+
+        if (this.plugin === "pgoutput") {
+            const results = await pool.query(
+                "SELECT lsn, data FROM pg_logical_slot_peek_binary_changes($1, NULL, $2, 'proto_version', '1', 'publication_names', $3)",
+                [this.slot, REPLICATION_CHANGES_LIMIT, this.publication],
+            );
+
+            rows = results.rows;
+
+            // Each call is a new decoding session, the relations are sent again
+            const decoder = new PgOutputDecoder();
+
+            for (const row of rows) {
+                changes = changes.concat(decoder.decode(row.data));
+            }
+        } else {
+            const results = await pool.query(
+                "SELECT lsn, data FROM pg_logical_slot_peek_changes($1, NULL, $2, 'format-version', '2', 'add-tables', $3)",
+                [this.slot, REPLICATION_CHANGES_LIMIT, this.tables.map(t => {
+                    return (t.schema ? escapeWal2JsonName(t.schema) : "*") + "." + escapeWal2JsonName(t.table);
+                }).join(",")],
+            );
+
+            rows = results.rows;
+
+            for (const row of rows) {
+                const change = parseWal2JsonChange(row.data);
+                if (change) {
+                    changes.push(change);
+                }
+            }
+        }
+
+        if (rows.length === 0) {
+            return 0;
+        }
+
+        const updatedTables: DataSourceTable[] = [];
+        const fullUpdateTables: DataSourceTable[] = [];
+
+        for (const change of changes) {
+            for (const table of this.tables) {
+                if (table.table !== change.table || (table.schema && table.schema !== change.schema)) {
+                    continue;
+                }
+
+                const instance = this.toInstance(table, change);
+
+                if (instance) {
+                    table.updateQueue.push(instance);
+
+                    if (!updatedTables.includes(table)) {
+                        updatedTables.push(table);
+                    }
+                } else if (!fullUpdateTables.includes(table)) {
+                    // Deletions, truncates and updates with unchanged TOASTed values are not sent as instances
+                    fullUpdateTables.push(table);
+                }
+            }
+        }
+
+        // Checkpoint
+        await pool.query("SELECT pg_replication_slot_advance($1, $2::pg_lsn)", [this.slot, rows[rows.length - 1].lsn]);
+
+        for (const table of updatedTables) {
+            DataSource.getInstance().noticeUpdate(table);
+        }
+
+        for (const table of fullUpdateTables) {
+            DataSource.getInstance().noticeFullUpdate(table);
+        }
+
+        if (Config.getInstance().logDebug) {
+            console.log(`[${(new Date()).toISOString()}] [REPLICATION] ${changes.length} changes read. Checkpoint: ${rows[rows.length - 1].lsn}`);
+        }
+
+        return rows.length;
+    }
+
+    /**
+     * Converts a change into an instance
+     * @param table The table
+     * @param change The change
+     * @returns The instance, or null if the change cannot be sent as an instance (the source requires a full update)
+     */
+    private toInstance(table: DataSourceTable, change: ReplicationChange): InstanceType[] {
+        if (change.action !== "insert" && change.action !== "update") {
+            return null;
+        }
+
+        const instance: InstanceType[] = [];
+
+        for (const feature of table.fields) {
+            if (!(feature.name in change.values)) {
+                // Unchanged TOASTed value
+                return null;
+            }
+            instance.push(turnInto(change.values[feature.name], feature.type));
+        }
+
+        return instance;
+    }
+}
@@ -0,0 +1,540 @@
+// Schema introspection
+
+"use strict";
+
+import Crypto from "crypto";
+import { appendFileSync } from "fs";
+import { Config, DataSourceTableConfig } from "./config";
+import { DataSource, DataSourceTable, getSourceSQL, getTableSQL } from "./source";
+import { Feature, FeatureType, getFeatureTextSearchSQL } from "./utils/deepint-sources";
+import { escapeIdentifier, qualifiedName, toIdentifierName } from "./utils/sql";
+
+/**
+ * Max length of the NOMINAL values
+ */
+const NOMINAL_MAX_LENGTH = 255;
+
+const STRING_TYPES = ["character varying", "character", "text", "uuid", "USER-DEFINED", "inet", "cidr", "macaddr"];
+const NUMERIC_TYPES = ["smallint", "integer", "bigint", "numeric", "decimal", "real", "double precision"];
+const DATE_TYPES = ["date", "timestamp without time zone", "timestamp with time zone"];
+
+/**
+ * Column types (information_schema data_type) compatible with each feature type
+ */
+const COMPATIBLE_TYPES: { [type: string]: string[] } = {
+    nominal: STRING_TYPES.concat(NUMERIC_TYPES, ["boolean"]),
+    text: STRING_TYPES.concat(["json", "jsonb", "xml"]),
+    numeric: NUMERIC_TYPES,
+    logic: ["boolean"],
+    date: DATE_TYPES,
+};
+
+export interface ColumnInfo {
+    name: string;
+    dataType: string;
+    udtName: string;
+    maxLength: number;
+    nullable: boolean;
+}
+
+export interface TableMappingProposal {
+    /**
+     * Proposed table mapping
+     */
+    mapping: DataSourceTableConfig;
+
+    /**
+     * Columns left out of the mapping, because their type is not supported
+     */
+    skipped: ColumnInfo[];
+}
+
+/**
+ * Reads the columns of a table from information_schema
+ * @param table Name of the table
+ * @param schema Name of the schema. Default: current schema
+ * @returns The columns, in order. Empty if the table does not exist.
+ */
+export async function getTableColumns(table: string, schema?: string): Promise<ColumnInfo[]> {
+    const results = await DataSource.getInstance().pool.query(
+        "SELECT column_name, data_type, udt_name, character_maximum_length, is_nullable FROM information_schema.columns " +
+        "WHERE table_schema = COALESCE($2, current_schema()) AND table_name = $1 ORDER BY ordinal_position",
+        [table, schema || null],
+    );
+
+    return results.rows.map(row => {
+        return {
+            name: row.column_name,
+            dataType: row.data_type,
+            udtName: row.udt_name,
+            maxLength: row.character_maximum_length === null ? -1 : Number(row.character_maximum_length),
+            nullable: row.is_nullable === "YES",
+        };
+    });
+}
+
+/**
+ * Reads the columns returned by a relation or subquery, running it without rows.
+ * Used for the materialized views and queries, which are not listed in information_schema.
+ * @param source The relation or subquery, as SQL (FROM clause)
+ * @returns The columns, in order
+ */
+export async function getQueryColumns(source: string): Promise<ColumnInfo[]> {
+    const pool = DataSource.getInstance().pool;
+    const results = await pool.query("SELECT * FROM " + source + " LIMIT 0");
+
+    if (results.fields.length === 0) {
+        return [];
+    }
+
+    // Type names as information_schema reports them
+    const types = await pool.query(
+        "SELECT oid, typname, CASE WHEN typtype = 'e' THEN 'USER-DEFINED' WHEN oid = 'bpchar'::regtype THEN 'character' ELSE format_type(oid, NULL) END AS data_type " +
+        "FROM pg_type WHERE oid = ANY($1::oid[])",
+        [results.fields.map(f => f.dataTypeID)],
+    );
+
+    return results.fields.map(field => {
+        const type = types.rows.find(t => Number(t.oid) === field.dataTypeID) || { typname: "", data_type: "" };
+        const isCharacter = type.data_type === "character varying" || type.data_type === "character";
+
+        return {
+            name: field.name,
+            dataType: type.data_type,
+            udtName: type.typname,
+            maxLength: (isCharacter && field.dataTypeModifier > 4) ? field.dataTypeModifier - 4 : -1,
+            nullable: true,
+        };
+    });
+}
+
+/**
+ * Reads the columns of the relation a source reads from
+ * @param table The table
+ * @returns The columns, in order. Empty if the table or view does not exist.
+ */
+export async function getSourceColumns(table: DataSourceTable): Promise<ColumnInfo[]> {
+    if (table.sourceType === "table" || table.sourceType === "view") {
+        return getTableColumns(table.table, table.schema);
+    }
+
+    return getQueryColumns(getSourceSQL(table));
+}
+
+/**
+ * Reads the primary key of a table from information_schema
+ * @param table Name of the table
+ * @param schema Name of the schema. Default: current schema
+ * @returns The names of the primary key columns. Empty if the table has no primary key.
+ */
+export async function getTablePrimaryKey(table: string, schema?: string): Promise<string[]> {
+    const results = await DataSource.getInstance().pool.query(
+        "SELECT kcu.column_name FROM information_schema.table_constraints tc " +
+        "JOIN information_schema.key_column_usage kcu ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema AND kcu.table_name = tc.table_name " +
+        "WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = COALESCE($2, current_schema()) AND tc.table_name = $1 ORDER BY kcu.ordinal_position",
+        [table, schema || null],
+    );
+
+    return results.rows.map(row => {
+        return row.column_name;
+    });
+}
+
+/**
+ * Finds the feature type for a column
+ * @param column The column
+ * @returns The feature type, or null if the column type is not supported
+ */
+export function getColumnFeatureType(column: ColumnInfo): FeatureType {
+    if (column.dataType === "character varying" || column.dataType === "character") {
+        return (column.maxLength < 0 || column.maxLength > NOMINAL_MAX_LENGTH) ? "text" : "nominal";
+    } else if (["json", "jsonb", "xml", "text"].includes(column.dataType)) {
+        return "text";
+    } else if (STRING_TYPES.includes(column.dataType)) {
+        return "nominal";
+    } else if (NUMERIC_TYPES.includes(column.dataType)) {
+        return "numeric";
+    } else if (column.dataType === "boolean") {
+        return "logic";
+    } else if (DATE_TYPES.includes(column.dataType)) {
+        return "date";
+    } else {
+        return null;
+    }
+}
+
+/**
+ * Checks if a column can store the values of a feature type
+ * @param type The feature type
+ * @param column The column
+ * @returns True if compatible
+ */
+export function isCompatibleColumn(type: FeatureType, column: ColumnInfo): boolean {
+    return (COMPATIBLE_TYPES[type] || []).includes(column.dataType);
+}
+
+/**
+ * Proposes a table mapping for an existing table
+ * @param table Name of the table
+ * @param schema Name of the schema. Default: current schema
+ * @returns The proposal, or null if the table does not exist
+ */
+export async function proposeTableMapping(table: string, schema?: string): Promise<TableMappingProposal> {
+    const columns = await getTableColumns(table, schema);
+
+    if (columns.length === 0) {
+        return null;
+    }
+
+    const primaryKey = await getTablePrimaryKey(table, schema);
+
+    const mapping: DataSourceTableConfig = {
+        table: table,
+        publicKey: Crypto.randomBytes(16).toString("hex"),
+        secretKey: Crypto.randomBytes(32).toString("hex"),
+        fields: [],
+        topic: "",
+    };
+
+    const skipped: ColumnInfo[] = [];
+
+    for (const column of columns) {
+        const type = getColumnFeatureType(column);
+
+        if (!type) {
+            skipped.push(column);
+            continue;
+        }
+
+        mapping.fields.push({
+            name: column.name,
+            type: <FeatureType>type.toUpperCase(),
+        });
+    }
+
+    if (primaryKey.length > 0 && primaryKey.every(key => mapping.fields.some(f => f.name === key))) {
+        mapping.primaryKey = primaryKey;
+    }
+
+    return {
+        mapping: mapping,
+        skipped: skipped,
+    };
+}
+
+/**
+ * Checks the table mappings against the database:
+ * the tables (or views, or queries) must exist, with a compatible column for each stored field,
+ * and the tables with a primary key must have a unique index on it.
+ * @param tables The tables
+ * @returns The list of problems found. Empty if the mappings are valid.
+ */
+export async function checkTableMappings(tables: DataSourceTable[]): Promise<string[]> {
+    const problems: string[] = [];
+
+    for (const table of tables) {
+        let columns: ColumnInfo[];
+
+        try {
+            columns = await getSourceColumns(table);
+        } catch (ex) {
+            problems.push(`Source "${table.table}" (${table.sourceType}) cannot be read: ${ex.message}`);
+            continue;
+        }
+
+        if (columns.length === 0) {
+            problems.push(`Table "${table.table}" not found.`);
+            continue;
+        }
+
+        for (const feature of table.fields) {
+            if (feature.expression) {
+                continue; // Computed at query time
+            }
+
+            const column = columns.find(c => c.name === feature.name);
+
+            if (!column) {
+                problems.push(`Column "${feature.name}" not found in table "${table.table}".`);
+            } else if (!isCompatibleColumn(feature.type, column)) {
+                problems.push(`Column "${feature.name}" of table "${table.table}" has type ${column.dataType}, incompatible with ${feature.type.toUpperCase()}.`);
+            }
+        }
+
+        if (table.sourceType === "table" && table.primaryKey.length > 0 && !(await hasUniqueIndex(getTableSQL(table), table.primaryKey.map(f => f.name)))) {
+            // The inserts use ON CONFLICT on the primary key
+            problems.push(`Table "${table.table}" has no primary key nor unique index on (${table.primaryKey.map(f => f.name).join(", ")}).`);
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Gets the column type to store a field
+ * @param table The table
+ * @param feature The field
+ * @returns The PostgreSQL column type
+ */
+export function getFeatureColumnType(table: DataSourceTable, feature: Feature): string {
+    const rules = table.fieldRules[feature.index];
+
+    switch (feature.type) {
+    case "nominal":
+        return "VARCHAR(" + ((rules && rules.maxLength >= 0 && rules.maxLength < NOMINAL_MAX_LENGTH) ? Math.max(1, rules.maxLength) : NOMINAL_MAX_LENGTH) + ")";
+    case "numeric":
+        return "DOUBLE PRECISION";
+    case "logic":
+        return "BOOLEAN";
+    case "date":
+        return "TIMESTAMP WITH TIME ZONE";
+    default:
+        return "TEXT";
+    }
+}
+
+/**
+ * Writes an executed DDL sentence to the audit log
+ * @param table The table
+ * @param sentence The sentence
+ */
+function auditDDL(table: DataSourceTable, sentence: string) {
+    const line = `[${(new Date()).toISOString()}] [${table.table}] ${sentence};`;
+
+    appendFileSync(Config.getInstance().ddlAuditLog, line + "\n");
+
+    if (Config.getInstance().logEvents) {
+        console.log(`[${(new Date()).toISOString()}] [DDL] ${sentence}`);
+    }
+}
+
+/**
+ * Creates a table from its mapping if it does not exist,
+ * or adds the columns of the fields missing in the table.
+ * Indexes are created for the DATE fields.
+ * @param table The table
+ * @returns The executed DDL sentences
+ */
+export async function autoCreateTable(table: DataSourceTable): Promise<string[]> {
+    const columns = await getTableColumns(table.table, table.schema);
+    const storedFields = table.fields.filter(f => {
+        return !f.expression;
+    });
+
+    const sentences: string[] = [];
+
+    if (columns.length === 0) {
+        const definitions = storedFields.map(f => {
+            const rules = table.fieldRules[f.index];
+            return escapeIdentifier(f.name) + " " + getFeatureColumnType(table, f) + ((rules && rules.required) ? " NOT NULL" : "");
+        });
+
+        if (table.primaryKey.length > 0) {
+            definitions.push("PRIMARY KEY (" + table.primaryKey.map(f => {
+                return escapeIdentifier(f.name);
+            }).join(", ") + ")");
+        }
+
+        sentences.push("CREATE TABLE IF NOT EXISTS " + getTableSQL(table) + " (" + definitions.join(", ") + ")");
+    } else {
+        // Fields appended to the mapping
+        for (const feature of storedFields) {
+            if (!columns.find(c => c.name === feature.name)) {
+                sentences.push("ALTER TABLE " + getTableSQL(table) + " ADD COLUMN IF NOT EXISTS " + escapeIdentifier(feature.name) + " " + getFeatureColumnType(table, feature));
+            }
+        }
+    }
+
+    const existingIndexes = columns.length === 0 ? [] : await getIndexedColumns(getTableSQL(table));
+
+    for (const feature of storedFields) {
+        if (feature.type === "date" && !existingIndexes.includes(feature.name)) {
+            sentences.push("CREATE INDEX IF NOT EXISTS " + escapeIdentifier(toIdentifierName(table.table + "_" + feature.name + "_idx")) + " ON " + getTableSQL(table) + " (" + escapeIdentifier(feature.name) + ")");
+        }
+    }
+
+    if (columns.length > 0 && table.primaryKey.length > 0 && !(await hasUniqueIndex(getTableSQL(table), table.primaryKey.map(f => f.name)))) {
+        // Required by the ON CONFLICT clause of the inserts. Fails if the existing rows have duplicated keys.
+        sentences.push("CREATE UNIQUE INDEX IF NOT EXISTS " + escapeIdentifier(toIdentifierName(table.table + "_primary_key_idx")) + " ON " + getTableSQL(table) + " (" + table.primaryKey.map(f => {
+            return escapeIdentifier(f.name);
+        }).join(", ") + ")");
+    }
+
+    if (sentences.length === 0) {
+        return sentences;
+    }
+
+    const client = await DataSource.getInstance().pool.connect();
+
+    try {
+        await client.query("BEGIN");
+
+        for (const sentence of sentences) {
+            await client.query(sentence);
+        }
+
+        await client.query("COMMIT");
+    } catch (ex) {
+        await client.query("ROLLBACK");
+        throw ex;
+    } finally {
+        client.release();
+    }
+
+    for (const sentence of sentences) {
+        auditDDL(table, sentence);
+    }
+
+    return sentences;
+}
+
+/**
+ * Lists the columns that are the first column of an index
+ * @param table The table, as SQL (quoted and schema-qualified)
+ * @returns The names of the columns
+ */
+async function getIndexedColumns(table: string): Promise<string[]> {
+    const results = await DataSource.getInstance().pool.query(
+        "SELECT a.attname AS column_name FROM pg_index i " +
+        "JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0] " +
+        "WHERE i.indrelid = to_regclass($1)",
+        [table],
+    );
+
+    return results.rows.map(row => {
+        return row.column_name;
+    });
+}
+
+/**
+ * Checks if a table has a unique index (or primary key, or unique constraint) on exactly a set of columns,
+ * so it can be the target of an ON CONFLICT clause
+ * @param table The table, as SQL (quoted and schema-qualified)
+ * @param columns The names of the columns
+ * @returns True if the index exists
+ */
+async function hasUniqueIndex(table: string, columns: string[]): Promise<boolean> {
+    const results = await DataSource.getInstance().pool.query(
+        "SELECT array_agg(a.attname::text) AS columns FROM pg_index i " +
+        "JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey) " +
+        "WHERE i.indrelid = to_regclass($1) AND i.indisunique AND i.indisvalid AND i.indpred IS NULL AND i.indexprs IS NULL " +
+        "GROUP BY i.indexrelid",
+        [table],
+    );
+
+    return results.rows.some(row => {
+        const indexColumns: string[] = row.columns || [];
+        return indexColumns.length === columns.length && columns.every(c => indexColumns.includes(c));
+    });
+}
+
+export interface TextSearchIndexStatus {
+    /**
+     * Stored TEXT field
+     */
+    feature: Feature;
+
+    /**
+     * Name of the GIN index
+     */
+    index: string;
+
+    /**
+     * True if the index exists
+     */
+    exists: boolean;
+
+    /**
+     * True if the index can be used. An interrupted concurrent build leaves an invalid index.
+     */
+    valid: boolean;
+}
+
+/**
+ * Gets the name of the full-text search index of a field
+ * @param table The table
+ * @param feature The field
+ * @returns The index name
+ */
+export function getTextSearchIndexName(table: DataSourceTable, feature: Feature): string {
+    return toIdentifierName(table.table + "_" + feature.name + "_fts_idx");
+}
+
+/**
+ * Gets the SQL sentence to create the full-text search index of a field.
+ * The index is built concurrently, so the writes to the table are not blocked.
+ * @param table The table
+ * @param feature The field
+ * @returns The SQL sentence
+ */
+export function getTextSearchIndexSQL(table: DataSourceTable, feature: Feature): string {
+    return "CREATE INDEX CONCURRENTLY IF NOT EXISTS " + escapeIdentifier(getTextSearchIndexName(table, feature)) + " ON " + getTableSQL(table) + " USING GIN (" + getFeatureTextSearchSQL(feature) + ")";
+}
+
+/**
+ * Checks the full-text search indexes of the stored TEXT fields.
+ * The fields without a language are indexed with the default one, the same used by the fts filters.
+ * @param table The table (or materialized view)
+ * @returns The status of the index of each field
+ */
+export async function checkTextSearchIndexes(table: DataSourceTable): Promise<TextSearchIndexStatus[]> {
+    const result: TextSearchIndexStatus[] = [];
+
+    for (const feature of table.fields) {
+        if (feature.type !== "text" || feature.expression) {
+            continue;
+        }
+
+        const index = getTextSearchIndexName(table, feature);
+
+        const results = await DataSource.getInstance().pool.query(
+            "SELECT indisvalid FROM pg_index WHERE indexrelid = to_regclass($1)",
+            [qualifiedName(table.schema, index)],
+        );
+
+        result.push({
+            feature: feature,
+            index: index,
+            exists: results.rows.length > 0,
+            valid: results.rows.length > 0 && !!results.rows[0].indisvalid,
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Creates the missing full-text search indexes of a table.
+ * Invalid indexes (left by an interrupted build) are dropped and created again.
+ * @param table The table (or materialized view)
+ * @returns The executed DDL sentences
+ */
+export async function createTextSearchIndexes(table: DataSourceTable): Promise<string[]> {
+    if (table.sourceType !== "table" && table.sourceType !== "materialized-view") {
+        throw new Error(`Source "${table.table}" is a ${table.sourceType}, it cannot be indexed.`);
+    }
+
+    const sentences: string[] = [];
+
+    for (const status of await checkTextSearchIndexes(table)) {
+        if (status.valid) {
+            continue;
+        }
+
+        // Concurrent builds cannot run inside a transaction, so each sentence runs on its own
+        if (status.exists) {
+            const drop = "DROP INDEX CONCURRENTLY IF EXISTS " + qualifiedName(table.schema, status.index);
+            await DataSource.getInstance().pool.query(drop);
+            auditDDL(table, drop);
+            sentences.push(drop);
+        }
+
+        const create = getTextSearchIndexSQL(table, status.feature);
+        await DataSource.getInstance().pool.query(create);
+        auditDDL(table, create);
+        sentences.push(create);
+    }
+
+    return sentences;
+}
+
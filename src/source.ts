@@ -2,16 +2,35 @@
 
 "use strict";
 
-import { Pool } from "pg";
+import { mkdirSync } from "fs";
+import { DatabaseError, Pool, PoolClient } from "pg";
 import Cursor from "pg-cursor";
 import { AsyncSemaphore } from "@asanrom/async-tools";
-import { Config } from "./config";
-import { Feature, FeatureType, InstanceType, QueryTree, replaceWildcards, sanitizeQueryTree, toSQLCondition, turnInto } from "./utils/deepint-sources";
+import { ComputedFieldConfig, Config, ConflictPolicy, DEFAULT_MQTT_BROKER, PayloadMapping, SourceType } from "./config";
+import { UpdateOutbox } from "./outbox";
+import { Feature, FeatureType, getFeatureSelectSQL, getFeatureSQL, InstanceType, QueryTree, replaceWildcards, sanitizeQueryTree, toSQLCondition, toSQLTextSearchRank, turnInto } from "./utils/deepint-sources";
+import { AggregationQuery, AggregationRow, getAggregateSQL, getGroupSQL, toAggregationRow } from "./utils/aggregation";
+import { getBucketAggregatesSQL, LTTBDownsampler, TimeSeriesPoint, TimeSeriesQuery } from "./utils/downsampling";
+import { evaluateExpression, ExpressionNode, parseExpression } from "./utils/expressions";
 import { Request } from "./utils/request";
+import { matchTopic, parseTopicPattern, TopicPattern } from "./utils/topics";
+import { ContinuationToken, decodeContinuationToken, encodeContinuationToken, getKeysetCondition, getKeysetFeatures, KEYSET_COLUMN_PREFIX } from "./utils/pagination";
+import { escapeIdentifier, qualifiedName } from "./utils/sql";
 import { secureStringCompare, toPostgresTemplate } from "./utils/text";
+import { applyFieldRules, FieldRules, parseFieldRules } from "./utils/validation";
 
 const DEEPINT_UPDATE_INSTANCES_LIMIT = 100;
 const CURSOR_READ_AMOUNT = 100;
+const PUSH_BATCH_SIZE = 1000;
+const PG_MAX_QUERY_PARAMS = 65535;
+
+/**
+ * Error codes that do not depend on the instances: lost connections,
+ * server shutdown, lack of resources, deadlocks and serialization failures
+ */
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EHOSTUNREACH", "40001", "40P01", "53300", "57P01", "57P02", "57P03"];
+
+export const VALIDATION_ERROR_CODE = "VALIDATION_ERROR";
 
 export interface DataSourceConfiguration {
     maxConnections: number;
@@ -26,20 +45,230 @@ export interface DataSourceConfiguration {
 }
 
 export interface DataSourceTable {
+    schema: string;
     table: string;
 
+    /**
+     * Kind of relation the source reads from. Only tables can be written.
+     */
+    sourceType: SourceType;
+
+    /**
+     * SELECT sentence of the query sources
+     */
+    query: string;
+
+    /**
+     * Seconds between refreshes of the materialized views. 0 to never refresh them.
+     */
+    refreshInterval: number;
+
     publicKey: string;
     secretKey: string;
 
     fields: Feature[];
 
+    /**
+     * Validation rules of the fields, by field index (null for fields without rules)
+     */
+    fieldRules: FieldRules[];
+
+    /**
+     * Computations of the fields filled at ingestion time, by field index (null for the rest)
+     */
+    fieldComputations: FieldComputation[];
+
     topic: string;
+    topicPattern: TopicPattern;
+    broker: string;
+    qos: 0 | 1 | 2;
+    payloadFormat: string;
+    ackTopic: string;
+    errorTopic: string;
+    correlationField: string;
+    mapping: PayloadMapping;
+
+    primaryKey: Feature[];
+    conflictPolicy: ConflictPolicy;
+
+    captureChanges: boolean;
+    replication: boolean;
+
+    autoCreate: boolean;
+
+    deadLetterTable: string;
 
     updateSem: AsyncSemaphore;
 
-    updateQueue: InstanceType[][];
+    /**
+     * Outbox of the instances to send. Null until the outboxes are opened by the service.
+     */
+    updateQueue: UpdateOutbox;
 
     requiredUpdate: boolean;
+
+    /**
+     * Set when there are changes that cannot be sent as instances (deletions).
+     * Unlike requiredUpdate, it is not cleared when the queued instances are sent,
+     * only by an update without instances once the queue is drained.
+     */
+    requiredFullUpdate: boolean;
+}
+
+export interface FieldComputation {
+    config: ComputedFieldConfig;
+    expression: ExpressionNode;
+}
+
+/**
+ * Context of the received instances, for the computed fields
+ */
+export interface SanitizeContext {
+    topic: string;
+    captures: { [name: string]: string };
+}
+
+export interface PushBatchResult {
+    rows: number;
+    duration: number;
+}
+
+export interface PushRejectedInstance {
+    index: number;
+    code: string;
+    message: string;
+}
+
+export type PushMode = "atomic" | "partial";
+
+export interface SanitizeChange {
+    index: number;
+    field: string;
+    change: string;
+}
+
+export interface SanitizeResult {
+    /**
+     * Valid instances
+     */
+    instances: InstanceType[][];
+
+    /**
+     * Index of each valid instance in the received list
+     */
+    indexes: number[];
+
+    /**
+     * Instances rejected by the validation rules
+     */
+    rejected: PushRejectedInstance[];
+
+    /**
+     * Values changed by the validation rules
+     */
+    changes: SanitizeChange[];
+}
+
+export interface PushResult {
+    mode: PushMode;
+    inserted: number;
+    batches: PushBatchResult[];
+    rejected: PushRejectedInstance[];
+
+    /**
+     * Stored rows, as returned by the database
+     */
+    rows: InstanceType[][];
+
+    /**
+     * Index of the instance each row was stored from
+     */
+    indexes: number[];
+
+    /**
+     * Indexes of the instances skipped because of a conflict (DO NOTHING)
+     */
+    ignored: number[];
+}
+
+/**
+ * Merges the instances rejected by the validation rules with the ones rejected on insertion
+ * @param sanitized Result of the sanitization
+ * @param rejected Instances rejected on insertion (indexes of the valid instances)
+ * @returns The rejected instances, with their indexes in the received list
+ */
+export function mergeRejectedInstances(sanitized: SanitizeResult, rejected: PushRejectedInstance[]): PushRejectedInstance[] {
+    return sanitized.rejected.concat(rejected.map(r => {
+        return {
+            index: sanitized.indexes[r.index],
+            code: r.code,
+            message: r.message,
+        };
+    })).sort((a, b) => {
+        return a.index - b.index;
+    });
+}
+
+/**
+ * Gets the SQL to reference a table
+ * @param table The table
+ * @returns The quoted (and schema-qualified, if set) table name
+ */
+export function getTableSQL(table: DataSourceTable): string {
+    return qualifiedName(table.schema, table.table);
+}
+
+/**
+ * Gets the SQL to read from a source (FROM clause)
+ * @param table The table
+ * @returns The table name, or the query as a subquery for query sources
+ */
+export function getSourceSQL(table: DataSourceTable): string {
+    if (table.sourceType === "query") {
+        return "(" + table.query + ") AS " + escapeIdentifier(table.table);
+    }
+
+    return getTableSQL(table);
+}
+
+/**
+ * Checks if a source is read-only (views and queries)
+ * @param table The table
+ * @returns True if the instances cannot be pushed, modified or deleted
+ */
+export function isReadOnlySource(table: DataSourceTable): boolean {
+    return table.sourceType !== "table";
+}
+
+/**
+ * Gets the fields received in the instances: the stored ones that are not computed at ingestion time
+ * @param table The table
+ * @returns The fields, in mapping order
+ */
+export function getReceivedFields(table: DataSourceTable): Feature[] {
+    return table.fields.filter(f => {
+        return !f.expression && !table.fieldComputations[f.index];
+    });
+}
+
+/**
+ * Checks if an error is transient, so the same operation can succeed if retried
+ * @param err The error
+ * @returns True for connection errors, pool timeouts and the transient PostgreSQL errors
+ */
+export function isTransientError(err: any): boolean {
+    if (!err) {
+        return false;
+    }
+
+    const code = err.code + "";
+
+    if (code.startsWith("08") || TRANSIENT_ERROR_CODES.includes(code)) {
+        return true;
+    }
+
+    // Errors of the client without a code
+    return !(err instanceof DatabaseError) && /connection terminated|timeout exceeded|connection error/i.test(err.message + "");
 }
 
 export class DataSource {
@@ -63,24 +292,70 @@ export class DataSource {
 
     constructor(config: DataSourceConfiguration) {
         this.config = config;
+
+        mkdirSync(Config.getInstance().updateOutboxPath, { recursive: true });
+
         this.tables = Config.getInstance().tablesConfig.map(t => {
+            const fields: Feature[] = t.fields.map((f, i) => {
+                return {
+                    index: i,
+                    name: f.name,
+                    type: <FeatureType>f.type.toLowerCase(),
+                    expression: f.sql || undefined,
+                    language: f.language || undefined,
+                };
+            });
+
             return {
+                schema: t.schema || "",
                 table: t.table,
+                sourceType: t.sourceType || "table",
+                query: t.query || "",
+                refreshInterval: t.refreshInterval || 0,
                 publicKey: t.publicKey,
                 secretKey: t.secretKey,
-                fields: t.fields.map((f, i) => {
+                fields: fields,
+
+                fieldRules: t.fields.map(f => {
+                    return parseFieldRules(<FeatureType>f.type.toLowerCase(), f);
+                }),
+                fieldComputations: t.fields.map(f => {
+                    if (!f.computed) {
+                        return null;
+                    }
                     return {
-                        index: i,
-                        name: f.name,
-                        type: <FeatureType>f.type.toLowerCase(),
+                        config: f.computed,
+                        expression: f.computed.expression !== undefined ? parseExpression(f.computed.expression) : null,
                     };
                 }),
 
                 topic: t.topic || "",
+                topicPattern: t.topic ? parseTopicPattern(t.topic) : null,
+                broker: t.broker || DEFAULT_MQTT_BROKER,
+                qos: t.qos || 0,
+                payloadFormat: (t.payloadFormat || "json").toLowerCase(),
+                ackTopic: t.ackTopic || "",
+                errorTopic: t.errorTopic || "",
+                correlationField: t.correlationField || "correlationId",
+                mapping: t.mapping || null,
+
+                primaryKey: (t.primaryKey || []).map(key => {
+                    return fields.find(f => f.name === key);
+                }),
+                conflictPolicy: t.conflictPolicy || "update",
+
+                captureChanges: !!t.captureChanges,
+                replication: !!t.replication,
+
+                autoCreate: !!t.autoCreate,
+
+                // Nothing is ingested into the virtual sources
+                deadLetterTable: (t.sourceType || "table") === "table" ? (t.deadLetterTable || Config.getInstance().deadLetterTable) : "",
 
                 updateSem: new AsyncSemaphore(0),
-                updateQueue: [],
+                updateQueue: null,
                 requiredUpdate: false,
+                requiredFullUpdate: false,
             };
         });
 
@@ -98,6 +373,18 @@ export class DataSource {
         this.closed = false;
     }
 
+    /**
+     * Opens the update outboxes of the tables, replaying their journals.
+     * Only the service must call it: loading an outbox compacts its journal.
+     */
+    public openOutboxes() {
+        for (const table of this.tables) {
+            if (!table.updateQueue) {
+                table.updateQueue = new UpdateOutbox(UpdateOutbox.getJournalFile(Config.getInstance().updateOutboxPath, table.publicKey));
+            }
+        }
+    }
+
     public getTableFromCredentials(pubkey: string, secKey: string): DataSourceTable {
         for (const table of this.tables) {
             if (secureStringCompare(pubkey, table.publicKey) && secureStringCompare(secKey, table.secretKey)) {
@@ -108,9 +395,12 @@ export class DataSource {
         return null;
     }
 
-    public getTableFromTopic(topic: string): DataSourceTable {
+    public getTableFromTopic(topic: string, broker?: string): DataSourceTable {
         for (const table of this.tables) {
-            if (table.topic === topic) {
+            if (broker !== undefined && table.broker !== broker) {
+                continue;
+            }
+            if (table.topicPattern && matchTopic(table.topicPattern, topic)) {
                 return table;
             }
         }
@@ -154,26 +444,33 @@ export class DataSource {
     }
 
     public async runUpdateServiceTable(table: DataSourceTable) {
+        if (table.updateQueue.length > 0) {
+            // Replay the instances left in the outbox
+            table.updateSem.release();
+        }
+
         while (!this.closed) {
             await table.updateSem.acquire();
 
-            if (!table.requiredUpdate && table.updateQueue.length === 0) {
+            if (!table.requiredUpdate && !table.requiredFullUpdate && table.updateQueue.length === 0) {
                 continue;
             }
 
-            const instancesToPush: InstanceType[][] = [];
-
-            while (instancesToPush.length < DEEPINT_UPDATE_INSTANCES_LIMIT && table.updateQueue.length > 0) {
-                instancesToPush.push(table.updateQueue.shift());
-            }
+            const instancesToPush: InstanceType[][] = table.updateQueue.peek(DEEPINT_UPDATE_INSTANCES_LIMIT);
 
             table.requiredUpdate = false;
 
+            if (instancesToPush.length === 0) {
+                // Full update
+                table.requiredFullUpdate = false;
+            }
+
             let done = false;
 
             while (!done) {
                 try {
                     await this.sendInstancesToDeepIntelligence(table, instancesToPush);
+                    table.updateQueue.ack(instancesToPush.length);
                     done = true;
                 } catch (ex) {
                     console.error(ex);
@@ -190,6 +487,11 @@ export class DataSource {
             if (Config.getInstance().logEvents) {
                 console.log(`[${(new Date()).toISOString()}] [UPDATE] [${table.table}] External source updated.`);
             }
+
+            if (table.updateQueue.length > 0 || table.requiredFullUpdate) {
+                // More instances pending, or a full update after them
+                table.updateSem.release();
+            }
         }
     }
 
@@ -215,66 +517,392 @@ export class DataSource {
         });
     }
 
-    public sanitizeInstances(table: DataSourceTable, instances: any[]): InstanceType[][] {
+    /**
+     * Sanitizes the received instances, applying the validation rules of the fields.
+     * The fields computed at ingestion time are filled after the received ones.
+     * @param table Table
+     * @param instances Received instances. Objects with the names of the fields as keys.
+     * @param context Context of the instances (MQTT topic), for the computed fields
+     * @returns The valid instances, the rejected ones and the changes made to the values
+     */
+    public sanitizeInstances(table: DataSourceTable, instances: any[], context?: SanitizeContext): SanitizeResult {
+        const result: SanitizeResult = {
+            instances: [],
+            indexes: [],
+            rejected: [],
+            changes: [],
+        };
+
         if (!Array.isArray(instances)) {
-            return [];
+            return result;
         }
-        return instances.map(i => {
-            const instance: InstanceType[] = [];
+
+        const received = getReceivedFields(table);
+        const computed = table.fields.filter(f => {
+            return !!table.fieldComputations[f.index];
+        });
+
+        instances.forEach((i, index) => {
+            const instance: InstanceType[] = table.fields.map(() => null);
+            const values = Object.create(null);
+            const changes: SanitizeChange[] = [];
             let row = i;
-            if (typeof i !== "object") {
+            if (!row || typeof row !== "object") {
                 row = Object.create(null);
             }
 
-            for (const feature of table.fields) {
-                instance.push(turnInto(row[feature.name], feature.type));
+            for (const feature of received.concat(computed)) {
+                const data = table.fieldComputations[feature.index] ? this.computeField(table.fieldComputations[feature.index], row[feature.name], values, context) : row[feature.name];
+                const validation = applyFieldRules(feature, table.fieldRules[feature.index], data);
+
+                if (validation.error) {
+                    result.rejected.push({
+                        index: index,
+                        code: VALIDATION_ERROR_CODE,
+                        message: `Field "${feature.name}": ${validation.error}`,
+                    });
+                    return;
+                }
+
+                if (validation.change) {
+                    changes.push({
+                        index: index,
+                        field: feature.name,
+                        change: validation.change,
+                    });
+                }
+
+                instance[feature.index] = validation.value;
+                values[feature.name] = validation.value;
             }
 
-            return instance;
+            result.instances.push(instance);
+            result.indexes.push(index);
+            result.changes.push(...changes);
         });
+
+        return result;
+    }
+
+    /**
+     * Computes the value of a field computed at ingestion time
+     * @param computation The computation
+     * @param data The received value
+     * @param values The values of the fields already sanitized, by name
+     * @param context Context of the instance
+     * @returns The computed value
+     */
+    private computeField(computation: FieldComputation, data: any, values: { [name: string]: InstanceType }, context: SanitizeContext): any {
+        if (computation.config.timestamp) {
+            return new Date();
+        } else if (computation.expression) {
+            return evaluateExpression(computation.expression, values);
+        } else if (!context) {
+            // Topic computations only apply to MQTT messages
+            return data;
+        } else if (computation.config.topicCapture !== undefined) {
+            return context.captures ? context.captures[computation.config.topicCapture] : undefined;
+        } else {
+            const segments = context.topic.split("/");
+            const segment = computation.config.topicSegment;
+            return segments[segment < 0 ? (segments.length + segment) : segment];
+        }
     }
 
+    /**
+     * Sanitizes a partial instance (only some of the fields).
+     * The fields computed at query time are ignored.
+     * Throws an error if a value is rejected by the validation rules.
+     * @param table Table
+     * @param partial Partial instance. Object with the names of the fields as keys.
+     * @returns The list of fields to set, with their values
+     */
+    public sanitizePartialInstance(table: DataSourceTable, partial: any): { feature: Feature, value: InstanceType }[] {
+        if (!partial || typeof partial !== "object") {
+            return [];
+        }
+
+        return table.fields.filter(feature => {
+            return !feature.expression && Object.prototype.hasOwnProperty.call(partial, feature.name);
+        }).map(feature => {
+            const validation = applyFieldRules(feature, table.fieldRules[feature.index], partial[feature.name], true);
+
+            if (validation.error) {
+                throw new Error(`Field "${feature.name}": ${validation.error}`);
+            }
+
+            return {
+                feature: feature,
+                value: validation.value,
+            };
+        });
+    }
 
-    private async pushInstance(table: DataSourceTable, instance: InstanceType[]): Promise<void> {
-        let sentence = "INSERT INTO \"" + table.table + "\"(";
+    /**
+     * Inserts a batch of instances with a single multi-row INSERT.
+     * If the table has a primary key, conflicting rows are updated or ignored depending on the conflict policy.
+     * @param client Database client
+     * @param table Table to insert into
+     * @param instances Instances
+     * @returns The resulting rows
+     */
+    private async pushInstancesBatch(client: PoolClient, table: DataSourceTable, instances: InstanceType[][]): Promise<InstanceType[][]> {
+        let sentence = "INSERT INTO " + getTableSQL(table) + "(";
         const sqlKeys = [];
         const values = [];
-        const qm = [];
+        const rows = [];
+
+        // Fields computed at query time are not stored
+        const storedFields = table.fields.filter(f => {
+            return !f.expression;
+        });
 
-        for (const field of table.fields) {
-            sqlKeys.push("\"" + field.name + "\"");
-            values.push(instance[field.index]);
-            qm.push("?");
+        for (const field of storedFields) {
+            sqlKeys.push(escapeIdentifier(field.name));
+        }
+
+        for (const instance of instances) {
+            const qm = [];
+            for (const field of storedFields) {
+                values.push(instance[field.index]);
+                qm.push("?");
+            }
+            rows.push("(" + qm.join(",") + ")");
         }
 
         sentence += sqlKeys.join(",");
 
-        sentence += ") VALUES (";
+        sentence += ") VALUES ";
 
-        sentence += qm.join(",");
+        sentence += rows.join(",");
 
-        sentence += ")";
+        if (table.primaryKey.length > 0) {
+            sentence += " ON CONFLICT (" + table.primaryKey.map(f => {
+                return escapeIdentifier(f.name);
+            }).join(",") + ")";
 
-        return new Promise<void>(function (resolve, reject) {
-            this.pool.query(toPostgresTemplate(sentence), values, function (error, results) {
-                if (error) {
-                    return reject(error);
-                }
-                table.updateQueue.push(instance)
-                resolve();
-            }.bind(this));
-        }.bind(this));
+            const updatedKeys = storedFields.filter(f => {
+                return !table.primaryKey.includes(f);
+            }).map(f => {
+                return escapeIdentifier(f.name) + " = EXCLUDED." + escapeIdentifier(f.name);
+            });
+
+            if (table.conflictPolicy === "update" && updatedKeys.length > 0) {
+                sentence += " DO UPDATE SET " + updatedKeys.join(",");
+            } else {
+                sentence += " DO NOTHING";
+            }
+        }
+
+        sentence += " RETURNING " + table.fields.map(getFeatureSelectSQL).join(",");
+
+        const results = await client.query(toPostgresTemplate(sentence), values);
+
+        return results.rows.map(row => {
+            const instance: InstanceType[] = [];
+            for (const feature of table.fields) {
+                instance.push(turnInto(row[feature.name], feature.type));
+            }
+            return instance;
+        });
     }
 
     /**
-     * Adds instances to the collection
+     * Adds instances to the collection.
+     * The instances are inserted in a single transaction.
+     * In atomic mode, if any instance is rejected, the transaction is rolled back.
+     * In partial mode, the rejected instances are skipped and the rest are committed.
      * @param table Table to query
      * @param instances Instances
+     * @param mode Push mode. Default: atomic
+     * @returns The inserted rows, the timing of each batch, the rejected instances and the ones skipped by a conflict
      */
-    public async pushInstances(table: DataSourceTable, instances: InstanceType[][]): Promise<void> {
-        for (const instance of instances) {
-            await this.pushInstance(table, instance);
+    public async pushInstances(table: DataSourceTable, instances: InstanceType[][], mode?: PushMode): Promise<PushResult> {
+        const result: PushResult = {
+            mode: mode || "atomic",
+            inserted: 0,
+            batches: [],
+            rejected: [],
+            rows: [],
+            indexes: [],
+            ignored: [],
+        };
+
+        if (instances.length === 0) {
+            return result;
         }
+
+        // Postgres limits the number of parameters of a query
+        const batchSize = Math.max(1, Math.min(PUSH_BATCH_SIZE, Math.floor(PG_MAX_QUERY_PARAMS / Math.max(1, table.fields.length))));
+
+        const inserted: InstanceType[][] = [];
+
+        const client = await this.pool.connect();
+
+        try {
+            await client.query("BEGIN");
+
+            for (let i = 0; i < instances.length; i += batchSize) {
+                const batch = instances.slice(i, i + batchSize);
+                const startTime = Date.now();
+                let batchInserted = 0;
+
+                await client.query("SAVEPOINT push_batch");
+
+                let batchRows: InstanceType[][] = null;
+
+                try {
+                    batchRows = await this.pushInstancesBatch(client, table, batch);
+                } catch (ex) {
+                    if (!(ex instanceof DatabaseError) || isTransientError(ex)) {
+                        throw ex;
+                    }
+                }
+
+                if (batchRows && batchRows.length === batch.length) {
+                    // A row for each instance, in the same order
+                    for (let j = 0; j < batchRows.length; j++) {
+                        inserted.push(batchRows[j]);
+                        result.indexes.push(i + j);
+                    }
+                    batchInserted = batchRows.length;
+                } else {
+                    await client.query("ROLLBACK TO SAVEPOINT push_batch");
+
+                    // Insert the instances one by one to find the rejected ones
+                    // (or the ones conflicting with each other), and the ones skipped by a conflict
+                    for (let j = 0; j < batch.length; j++) {
+                        await client.query("SAVEPOINT push_row");
+                        try {
+                            const rows = await this.pushInstancesBatch(client, table, [batch[j]]);
+                            if (rows.length > 0) {
+                                inserted.push(rows[0]);
+                                result.indexes.push(i + j);
+                                batchInserted++;
+                            } else {
+                                result.ignored.push(i + j);
+                            }
+                        } catch (err) {
+                            if (!(err instanceof DatabaseError) || isTransientError(err)) {
+                                throw err;
+                            }
+                            await client.query("ROLLBACK TO SAVEPOINT push_row");
+                            result.rejected.push({
+                                index: i + j,
+                                code: err.code,
+                                message: err.message,
+                            });
+                        }
+                        await client.query("RELEASE SAVEPOINT push_row");
+                    }
+                }
+
+                await client.query("RELEASE SAVEPOINT push_batch");
+
+                result.batches.push({
+                    rows: batchInserted,
+                    duration: Date.now() - startTime,
+                });
+                result.inserted += batchInserted;
+
+                if (result.mode === "atomic" && result.rejected.length > 0) {
+                    break;
+                }
+            }
+
+            if (result.mode === "atomic" && result.rejected.length > 0) {
+                await client.query("ROLLBACK");
+                result.inserted = 0;
+                result.batches = [];
+                result.indexes = [];
+                result.ignored = [];
+                return result;
+            }
+
+            await client.query("COMMIT");
+        } catch (ex) {
+            await client.query("ROLLBACK").catch(err => {
+                console.error(err);
+            });
+            throw ex;
+        } finally {
+            client.release();
+        }
+
+        if (!table.replication) {
+            // With replication, the slot queues the inserted rows when it replays the changes
+            table.updateQueue.pushAll(inserted);
+        }
+
+        result.rows = inserted;
+
+        return result;
+    }
+
+    /**
+     * Modifies the instances matching a filter
+     * @param table Table to modify
+     * @param filter Filter to apply
+     * @param changes Fields to set, with their values
+     * @returns The number of modified instances
+     */
+    public async modifyInstances(table: DataSourceTable, filter: QueryTree, changes: { feature: Feature, value: InstanceType }[]): Promise<number> {
+        if (changes.length === 0) {
+            return 0;
+        }
+
+        let sentence = "UPDATE " + getTableSQL(table) + " SET ";
+        const values = [];
+
+        sentence += changes.map(c => {
+            values.push(c.value);
+            return escapeIdentifier(c.feature.name) + " = ?";
+        }).join(", ");
+
+        const cond1 = toSQLCondition(table.fields, filter);
+
+        if (cond1.sql) {
+            sentence += " WHERE " + cond1.sql;
+            for (const v of cond1.params) {
+                values.push(v);
+            }
+        }
+
+        if (Config.getInstance().logDebug) {
+            console.log("[QUERY] [PostgreSQL] " + sentence + "\nValues: " + JSON.stringify(values));
+        }
+
+        const results = await this.pool.query(toPostgresTemplate(sentence), values);
+
+        return results.rowCount || 0;
+    }
+
+    /**
+     * Deletes the instances matching a filter
+     * @param table Table to modify
+     * @param filter Filter to apply
+     * @returns The number of deleted instances
+     */
+    public async deleteInstances(table: DataSourceTable, filter: QueryTree): Promise<number> {
+        let sentence = "DELETE FROM " + getTableSQL(table);
+        const values = [];
+
+        const cond1 = toSQLCondition(table.fields, filter);
+
+        if (cond1.sql) {
+            sentence += " WHERE " + cond1.sql;
+            for (const v of cond1.params) {
+                values.push(v);
+            }
+        }
+
+        if (Config.getInstance().logDebug) {
+            console.log("[QUERY] [PostgreSQL] " + sentence + "\nValues: " + JSON.stringify(values));
+        }
+
+        const results = await this.pool.query(toPostgresTemplate(sentence), values);
+
+        return results.rowCount || 0;
     }
 
     /**
@@ -285,6 +913,16 @@ export class DataSource {
         table.updateSem.release();
     }
 
+    /**
+     * Notices changes that cannot be sent as instances (deletions).
+     * A full update is sent after the queued instances.
+     * @param table The table
+     */
+    public noticeFullUpdate(table: DataSourceTable) {
+        table.requiredFullUpdate = true;
+        table.updateSem.release();
+    }
+
     /**
      * Counts instances
      * @param table Table to query
@@ -292,7 +930,7 @@ export class DataSource {
      * @returns Instances count
      */
     public async countInstances(table: DataSourceTable, filter: QueryTree): Promise<number> {
-        let sentence = "SELECT COUNT(*) AS \"count\" FROM \"" + table.table + "\"";
+        let sentence = "SELECT COUNT(*) AS \"count\" FROM " + getSourceSQL(table);
         const values = [];
 
         const cond1 = toSQLCondition(table.fields, filter);
@@ -305,7 +943,7 @@ export class DataSource {
         }
 
         return new Promise<number>(function (resolve, reject) {
-            this.pool.query(sentence, values, function (error, results) {
+            this.pool.query(toPostgresTemplate(sentence), values, function (error, results) {
                 if (error) {
                     return reject(error);
                 }
@@ -319,20 +957,62 @@ export class DataSource {
     }
 
     /**
-     * Query instances
+     * Parses a continuation token received from the client
+     * @param table Table to query
+     * @param token The opaque token
+     * @param order Feature to order by
+     * @param dir Order direction
+     * @returns The token
+     * @throws Error if the token is not valid for the query
+     */
+    public parseContinuationToken(table: DataSourceTable, token: string, order: number, dir: string): ContinuationToken {
+        if (table.primaryKey.length === 0) {
+            throw new Error("Continuation tokens require a primary key. Use skip instead.");
+        }
+
+        const orderFeature = (order >= 0 && table.fields[order]) ? table.fields[order] : null;
+        const result = decodeContinuationToken(token, getKeysetFeatures(orderFeature, table.primaryKey).length);
+
+        if (result.order !== (orderFeature ? order : -1) || result.dir !== (dir === "desc" ? "desc" : "asc")) {
+            throw new Error("The continuation token belongs to a query with a different order.");
+        }
+
+        return result;
+    }
+
+    /**
+     * Query instances.
+     * If the table has a primary key and a limit is set, the rows are also ordered by the primary key,
+     * so the query can be continued after the last row (keyset pagination) instead of using an offset.
      * @param table Table to query
      * @param filter Filter to apply
      * @param order Feature to order by
      * @param dir Order direction
-     * @param skip Instances to skip
+     * @param rank True to order by relevance for the full-text search conditions of the filter, instead of the order feature.
+     * Keyset pagination is not available for this order.
+     * @param skip Instances to skip. Ignored if a continuation token is set.
+     * @param after Continuation token, to return the instances after the last one of the previous page. Null to use skip.
      * @param limit Limit of instances to return
      * @param projection Projection to apply
      * @param onStart Called with the list of features
      * @param onRow Called for each row
+     * @returns The continuation token for the next page, or null if there are no more pages (or keyset pagination is not available)
      */
-    public async query(table: DataSourceTable, filter: QueryTree, order: number, dir: string, skip: number, limit: number, projection: number[], onStart: (features: Feature[]) => void, onRow: (instance: InstanceType[]) => void): Promise<void> {
+    public async query(table: DataSourceTable, filter: QueryTree, order: number, dir: string, rank: boolean, skip: number, after: ContinuationToken, limit: number, projection: number[], onStart: (features: Feature[]) => void, onRow: (instance: InstanceType[]) => void): Promise<string> {
         let features = table.fields;
 
+        const orderFeature = (order >= 0 && table.fields[order]) ? table.fields[order] : null;
+        const orderDir = dir === "desc" ? "desc" : "asc";
+
+        const rankOrder = rank ? toSQLTextSearchRank(table.fields, filter) : null;
+
+        if (rankOrder && after) {
+            throw new Error("Continuation tokens cannot be used with the rank order.");
+        }
+
+        // Keyset pagination requires a unique tiebreaker
+        const keyset = (!rankOrder && table.primaryKey.length > 0 && ((limit !== null && limit > 0) || !!after)) ? getKeysetFeatures(orderFeature, table.primaryKey) : [];
+
         let sentence = "SELECT ";
         const values = [];
 
@@ -341,37 +1021,66 @@ export class DataSource {
             const proj = [];
             for (const f of projection) {
                 if (table.fields[f]) {
-                    proj.push('"' + table.fields[f].name + '"');
+                    proj.push(getFeatureSelectSQL(table.fields[f]));
 
                     features.push(table.fields[f]);
                 }
             }
 
             sentence += proj.join(", ");
+        } else if (table.fields.some(f => !!f.expression)) {
+            sentence += "*, " + table.fields.filter(f => !!f.expression).map(getFeatureSelectSQL).join(", ");
         } else {
             sentence += "*";
         }
 
-        sentence += " FROM \"" + table.table + "\"";
+        keyset.forEach((f, i) => {
+            // Selected as text, to continue from the exact value
+            sentence += ", (" + getFeatureSQL(f) + ")::text AS " + escapeIdentifier(KEYSET_COLUMN_PREFIX + i);
+        });
+
+        sentence += " FROM " + getSourceSQL(table);
 
+        const conditions = [];
         const cond1 = toSQLCondition(table.fields, filter);
 
         if (cond1.sql) {
-            sentence += " WHERE " + cond1.sql;
+            conditions.push(cond1.sql);
             for (const v of cond1.params) {
                 values.push(v);
             }
         }
 
-        if (order >= 0 && table.fields[order]) {
-            sentence += " ORDER BY \"" + table.fields[order].name + "\" " + (dir === "desc" ? "DESC" : "ASC");
+        if (after) {
+            const cond2 = getKeysetCondition(keyset, after.keys, orderDir);
+            conditions.push(cond2.sql);
+            for (const v of cond2.params) {
+                values.push(v);
+            }
+        }
+
+        if (conditions.length > 0) {
+            sentence += " WHERE " + conditions.join(" AND ");
+        }
+
+        if (rankOrder) {
+            sentence += " ORDER BY " + rankOrder.sql + " DESC";
+            for (const v of rankOrder.params) {
+                values.push(v);
+            }
+        } else if (keyset.length > 0) {
+            sentence += " ORDER BY " + keyset.map(f => {
+                return getFeatureSQL(f) + " " + orderDir.toUpperCase();
+            }).join(", ");
+        } else if (orderFeature) {
+            sentence += " ORDER BY " + getFeatureSQL(orderFeature) + " " + orderDir.toUpperCase();
         }
 
         if (limit !== null && limit > 0) {
             sentence += " LIMIT " + limit;
         }
 
-        if (skip !== null && skip > 0) {
+        if (!after && skip !== null && skip > 0) {
             sentence += " OFFSET " + skip;
         }
 
@@ -380,7 +1089,7 @@ export class DataSource {
             console.log("[QUERY] [PostgreSQL] " + sentence + "\nValues: " + JSON.stringify(values));
         }
 
-        return new Promise<void>(async function (resolve, reject) {
+        return new Promise<string>(async function (resolve, reject) {
             let client;
 
             try {
@@ -389,10 +1098,13 @@ export class DataSource {
                 return reject(ex);
             }
 
-            const cursor = client.query(new Cursor(sentence, values));
+            const cursor = client.query(new Cursor(toPostgresTemplate(sentence), values));
 
             onStart(features);
 
+            let rowCount = 0;
+            let lastRow = null;
+
             let resultsEnded = false;
             while (!resultsEnded) {
                 const partialResuls: any[] = await (new Promise<any[]>(function (resolve) {
@@ -412,12 +1124,25 @@ export class DataSource {
                         }
                         onRow(instance);
                     }
+                    rowCount += partialResuls.length;
+                    lastRow = partialResuls[partialResuls.length - 1];
                 } else {
                     resultsEnded = true;
                 }
             }
 
-            resolve();
+            if (keyset.length > 0 && limit !== null && limit > 0 && rowCount >= limit) {
+                // Full page, there may be more rows
+                resolve(encodeContinuationToken({
+                    order: orderFeature ? order : -1,
+                    dir: orderDir,
+                    keys: keyset.map((f, i) => {
+                        return lastRow[KEYSET_COLUMN_PREFIX + i];
+                    }),
+                }));
+            } else {
+                resolve(null);
+            }
 
             cursor.close(() => {
                 client.release();
@@ -443,13 +1168,14 @@ export class DataSource {
 
         const cond1 = toSQLCondition(table.fields, filter);
         const fieldName = table.fields[feature].name;
+        const fieldSQL = getFeatureSQL(table.fields[feature]);
         query = (query || "").toLowerCase();
 
-        sentence += '"' + fieldName + '" FROM "' + table.table + '"';
+        sentence += getFeatureSelectSQL(table.fields[feature]) + " FROM " + getSourceSQL(table);
 
         if (cond1.sql) {
             if (query) {
-                sentence += " WHERE (" + cond1.sql + ") AND \"" + fieldName + "\" LIKE ?";
+                sentence += " WHERE (" + cond1.sql + ") AND " + fieldSQL + " LIKE ?";
                 for (const v of cond1.params) {
                     values.push(v);
                 }
@@ -461,11 +1187,11 @@ export class DataSource {
                 }
             }
         } else if (query) {
-            sentence += " WHERE \"" + fieldName + "\" LIKE ?";
+            sentence += " WHERE " + fieldSQL + " LIKE ?";
             values.push("" + replaceWildcards(query) + "%");
         }
 
-        sentence += " ORDER BY \"" + fieldName + "\" ";
+        sentence += " ORDER BY " + escapeIdentifier(fieldName) + " ";
 
         sentence += " LIMIT 128";
 
@@ -474,7 +1200,7 @@ export class DataSource {
         }
 
         return new Promise<any[]>(function (resolve, reject) {
-            this.pool.query(sentence, values, function (error, results) {
+            this.pool.query(toPostgresTemplate(sentence), values, function (error, results) {
                 if (error) {
                     return reject(error);
                 }
@@ -488,5 +1214,194 @@ export class DataSource {
             }.bind(this));
         }.bind(this));
     }
+
+    /**
+     * Computes grouped statistics
+     * @param table Table to query
+     * @param filter Filter to apply
+     * @param aggregation The groups and aggregates
+     * @returns One row for each group, ordered by the group values
+     */
+    public async aggregate(table: DataSourceTable, filter: QueryTree, aggregation: AggregationQuery): Promise<AggregationRow[]> {
+        const values = [];
+
+        const groups = aggregation.groupBy.map(getGroupSQL);
+
+        const columns = groups.map((g, i) => {
+            return g + " AS " + escapeIdentifier("g" + i);
+        });
+
+        for (let i = 0; i < aggregation.aggregates.length; i++) {
+            const agg = getAggregateSQL(aggregation.aggregates[i]);
+            columns.push(agg.sql + " AS " + escapeIdentifier("a" + i));
+            for (const v of agg.params) {
+                values.push(v);
+            }
+        }
+
+        let sentence = "SELECT " + columns.join(", ") + " FROM " + getSourceSQL(table);
+
+        const cond1 = toSQLCondition(table.fields, filter);
+
+        if (cond1.sql) {
+            sentence += " WHERE " + cond1.sql;
+            for (const v of cond1.params) {
+                values.push(v);
+            }
+        }
+
+        if (groups.length > 0) {
+            sentence += " GROUP BY " + groups.join(", ") + " ORDER BY " + groups.join(", ");
+        }
+
+        sentence += " LIMIT " + aggregation.limit;
+
+        if (Config.getInstance().logDebug) {
+            console.log("[QUERY] [PostgreSQL] " + sentence + "\nValues: " + JSON.stringify(values));
+        }
+
+        const results = await this.pool.query(toPostgresTemplate(sentence), values);
+
+        return results.rows.map(row => {
+            return toAggregationRow(aggregation, row);
+        });
+    }
+
+    /**
+     * Computes downsampled time series
+     * @param table Table to query
+     * @param filter Filter to apply
+     * @param series The time range, buckets, method and features
+     * @returns The points of each series, in time order
+     */
+    public async timeSeries(table: DataSourceTable, filter: QueryTree, series: TimeSeriesQuery): Promise<{ feature: Feature, points: TimeSeriesPoint[] }[]> {
+        const timeSQL = getFeatureSQL(series.time);
+        const bucketed = series.method !== "lttb";
+
+        const values = [];
+        let sentence = "SELECT ";
+
+        if (bucketed) {
+            sentence += "FLOOR(EXTRACT(EPOCH FROM (" + timeSQL + " - CAST(? AS TIMESTAMP WITH TIME ZONE))) * 1000 / ?) AS \"b\"";
+            values.push(series.from);
+            values.push(series.width);
+
+            series.features.forEach((f, i) => {
+                getBucketAggregatesSQL(series.method, series.time, f).forEach((agg, j) => {
+                    sentence += ", " + agg + " AS " + escapeIdentifier("v" + i + "_" + j);
+                });
+            });
+        } else {
+            sentence += timeSQL + " AS \"t\"";
+
+            series.features.forEach((f, i) => {
+                sentence += ", " + getFeatureSQL(f) + " AS " + escapeIdentifier("v" + i + "_0");
+            });
+        }
+
+        sentence += " FROM " + getSourceSQL(table) + " WHERE " + timeSQL + " >= ? AND " + timeSQL + " < ?";
+        values.push(series.from);
+        values.push(series.to);
+
+        const cond1 = toSQLCondition(table.fields, filter);
+
+        if (cond1.sql) {
+            sentence += " AND (" + cond1.sql + ")";
+            for (const v of cond1.params) {
+                values.push(v);
+            }
+        }
+
+        sentence += bucketed ? " GROUP BY 1 ORDER BY 1" : " ORDER BY 1";
+
+        if (Config.getInstance().logDebug) {
+            console.log("[QUERY] [PostgreSQL] " + sentence + "\nValues: " + JSON.stringify(values));
+        }
+
+        if (bucketed) {
+            const results = await this.pool.query(toPostgresTemplate(sentence), values);
+
+            return series.features.map((f, i) => {
+                const points: TimeSeriesPoint[] = [];
+
+                for (const row of results.rows) {
+                    const value = row["v" + i + "_0"];
+
+                    if (value === null || value === undefined) {
+                        continue; // No values in the bucket
+                    }
+
+                    const point: TimeSeriesPoint = {
+                        time: series.from.getTime() + Number(row.b) * series.width,
+                        value: Number(value),
+                    };
+
+                    if (series.method === "minmax") {
+                        point.max = Number(row["v" + i + "_1"]);
+                    }
+
+                    points.push(point);
+                }
+
+                return {
+                    feature: f,
+                    points: points,
+                };
+            });
+        }
+
+        // LTTB needs the raw points, read them with a cursor
+        const downsamplers = series.features.map(() => {
+            return new LTTBDownsampler(series.from.getTime(), series.width);
+        });
+
+        const client = await this.pool.connect();
+
+        try {
+            const cursor = client.query(new Cursor(toPostgresTemplate(sentence), values));
+
+            try {
+                let rows: any[];
+
+                do {
+                    rows = await new Promise<any[]>((resolve, reject) => {
+                        cursor.read(CURSOR_READ_AMOUNT, (err, result) => {
+                            if (err) {
+                                return reject(err);
+                            }
+                            resolve(result);
+                        });
+                    });
+
+                    for (const row of rows) {
+                        const time = turnInto(row.t, "date");
+
+                        if (!time) {
+                            continue;
+                        }
+
+                        downsamplers.forEach((d, i) => {
+                            d.add((<Date>time).getTime(), <number>turnInto(row["v" + i + "_0"], "numeric"));
+                        });
+                    }
+                } while (rows.length > 0);
+            } finally {
+                await new Promise<void>(resolve => {
+                    cursor.close(() => {
+                        resolve();
+                    });
+                });
+            }
+        } finally {
+            client.release();
+        }
+
+        return series.features.map((f, i) => {
+            return {
+                feature: f,
+                points: downsamplers[i].finish(),
+            };
+        });
+    }
 }
 
@@ -0,0 +1,230 @@
+// Aggregation utils
+
+"use strict";
+
+import { Feature, getFeatureSQL, InstanceType, turnInto } from "./deepint-sources";
+
+const AGGREGATION_MAX_GROUP_BY = 8;
+const AGGREGATION_MAX_AGGREGATES = 32;
+
+/**
+ * Max number of groups returned by an aggregation
+ */
+export const AGGREGATION_GROUPS_LIMIT = 10000;
+
+export type DateBucket = "minute" | "hour" | "day" | "week";
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max" | "stddev" | "percentile";
+
+const DATE_BUCKETS: DateBucket[] = ["minute", "hour", "day", "week"];
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["count", "sum", "avg", "min", "max", "stddev", "percentile"];
+
+export interface AggregationGroup {
+    feature: Feature;
+
+    /**
+     * Date bucket (DATE features only). Null to group by the exact value.
+     */
+    bucket: DateBucket;
+}
+
+export interface AggregationValue {
+    function: AggregateFunction;
+
+    /**
+     * Feature to aggregate. Null to count the instances.
+     */
+    feature: Feature;
+
+    /**
+     * Percentile to compute, between 0 and 1 (percentile function only)
+     */
+    percentile: number;
+}
+
+export interface AggregationQuery {
+    groupBy: AggregationGroup[];
+    aggregates: AggregationValue[];
+    limit: number;
+}
+
+export interface AggregationRow {
+    /**
+     * Values of the group by features (start of the bucket, for the bucketed dates)
+     */
+    keys: InstanceType[];
+
+    /**
+     * Values of the aggregates
+     */
+    values: number[];
+}
+
+/**
+ * Sanitizes an aggregation request
+ * @param features The features of the source
+ * @param json The request body
+ * @returns The aggregation
+ * @throws Error if the request is not valid
+ */
+export function sanitizeAggregation(features: Feature[], json: any): AggregationQuery {
+    const groupByJSON = json.groupBy === undefined || json.groupBy === null ? [] : json.groupBy;
+    const aggregatesJSON = json.aggregates === undefined || json.aggregates === null ? [{ function: "count" }] : json.aggregates;
+
+    if (!Array.isArray(groupByJSON) || groupByJSON.length > AGGREGATION_MAX_GROUP_BY) {
+        throw new Error("groupBy must be a list of up to " + AGGREGATION_MAX_GROUP_BY + " features.");
+    }
+
+    if (!Array.isArray(aggregatesJSON) || aggregatesJSON.length === 0 || aggregatesJSON.length > AGGREGATION_MAX_AGGREGATES) {
+        throw new Error("aggregates must be a list of 1 to " + AGGREGATION_MAX_AGGREGATES + " aggregates.");
+    }
+
+    const getFeature = (index: any): Feature => {
+        const feature = typeof index === "number" ? features[index] : undefined;
+        if (!feature) {
+            throw new Error("Invalid feature index: " + index);
+        }
+        return feature;
+    };
+
+    const groupBy: AggregationGroup[] = groupByJSON.map(g => {
+        // A feature index, or an object with the index and the date bucket
+        const feature = getFeature((g !== null && typeof g === "object") ? g.feature : g);
+        const bucket = (g !== null && typeof g === "object" && g.bucket !== undefined && g.bucket !== null) ? (g.bucket + "").toLowerCase() : null;
+
+        if (bucket !== null) {
+            if (feature.type !== "date") {
+                throw new Error(`Feature ${feature.index} is not a DATE, it cannot be bucketed.`);
+            }
+            if (!DATE_BUCKETS.includes(<DateBucket>bucket)) {
+                throw new Error("Invalid date bucket: " + bucket);
+            }
+        }
+
+        return {
+            feature: feature,
+            bucket: <DateBucket>bucket,
+        };
+    });
+
+    const aggregates: AggregationValue[] = aggregatesJSON.map(a => {
+        if (a === null || typeof a !== "object") {
+            throw new Error("Invalid aggregate: " + JSON.stringify(a));
+        }
+
+        const func = (a.function + "").toLowerCase();
+
+        if (!AGGREGATE_FUNCTIONS.includes(<AggregateFunction>func)) {
+            throw new Error("Invalid aggregate function: " + a.function);
+        }
+
+        let feature: Feature = null;
+
+        if (a.feature !== undefined && a.feature !== null) {
+            feature = getFeature(a.feature);
+        } else if (func !== "count") {
+            throw new Error(`The ${func} aggregate requires a feature.`);
+        }
+
+        if (func !== "count" && feature.type !== "numeric") {
+            throw new Error(`Feature ${feature.index} is not NUMERIC, it cannot be aggregated with ${func}.`);
+        }
+
+        let percentile = 0;
+
+        if (func === "percentile") {
+            percentile = Number(a.percentile);
+            if (typeof a.percentile !== "number" || isNaN(percentile) || percentile < 0 || percentile > 1) {
+                throw new Error("The percentile aggregate requires a percentile between 0 and 1.");
+            }
+        }
+
+        return {
+            function: <AggregateFunction>func,
+            feature: feature,
+            percentile: percentile,
+        };
+    });
+
+    let limit = AGGREGATION_GROUPS_LIMIT;
+
+    if (json.limit !== undefined && json.limit !== null) {
+        limit = parseInt(json.limit + "", 10);
+        if (isNaN(limit) || limit <= 0 || limit > AGGREGATION_GROUPS_LIMIT) {
+            throw new Error("The limit must be between 1 and " + AGGREGATION_GROUPS_LIMIT + ".");
+        }
+    }
+
+    return {
+        groupBy: groupBy,
+        aggregates: aggregates,
+        limit: limit,
+    };
+}
+
+/**
+ * Gets the SQL of a group by expression
+ * @param group The group
+ * @returns The SQL expression
+ */
+export function getGroupSQL(group: AggregationGroup): string {
+    if (group.bucket) {
+        // The bucket is one of DATE_BUCKETS
+        return "date_trunc('" + group.bucket + "', " + getFeatureSQL(group.feature) + ")";
+    }
+
+    return getFeatureSQL(group.feature);
+}
+
+/**
+ * Gets the SQL of an aggregate
+ * @param aggregate The aggregate
+ * @returns The SQL expression (with ? placeholders) and its parameters
+ */
+export function getAggregateSQL(aggregate: AggregationValue): { sql: string, params: any[] } {
+    if (aggregate.function === "count") {
+        return {
+            sql: aggregate.feature ? ("COUNT(" + getFeatureSQL(aggregate.feature) + ")") : "COUNT(*)",
+            params: [],
+        };
+    }
+
+    const column = getFeatureSQL(aggregate.feature);
+
+    switch (aggregate.function) {
+    case "percentile":
+        return {
+            sql: "percentile_cont(?) WITHIN GROUP (ORDER BY " + column + ")",
+            params: [aggregate.percentile],
+        };
+    case "stddev":
+        return {
+            sql: "stddev_samp(" + column + ")",
+            params: [],
+        };
+    default:
+        return {
+            sql: aggregate.function.toUpperCase() + "(" + column + ")",
+            params: [],
+        };
+    }
+}
+
+/**
+ * Converts a result row of an aggregation
+ * @param aggregation The aggregation
+ * @param row The row, with the groups as g0, g1... and the aggregates as a0, a1...
+ * @returns The aggregation row
+ */
+export function toAggregationRow(aggregation: AggregationQuery, row: any): AggregationRow {
+    return {
+        keys: aggregation.groupBy.map((g, i) => {
+            return turnInto(row["g" + i], g.feature.type);
+        }),
+        values: aggregation.aggregates.map((a, i) => {
+            const value = row["a" + i];
+            return (value === null || value === undefined) ? null : Number(value);
+        }),
+    };
+}
@@ -2,17 +2,54 @@
 
 "use strict";
 
+import { escapeIdentifier, escapeLiteral } from "./sql";
+
 const QUERY_TREE_MAX_DEPH = 4;
 const QUERY_TREE_MAX_CHILDREN = 16;
+const QUERY_TREE_MAX_LIST = 256;
+const QUERY_TREE_MAX_VALUE_LENGTH = 1024;
+
+/**
+ * Operations with a list of values as operand
+ */
+const LIST_OPERATIONS = ["in", "nin", "between"];
+
+/**
+ * Operations with a relative time (eg: 24 hours) as operand
+ */
+const RELATIVE_DATE_OPERATIONS = ["inlast", "olderthan"];
+
+/**
+ * Text search configuration for the TEXT fields that do not set a language
+ */
+export const DEFAULT_TEXT_SEARCH_LANGUAGE = "simple";
+
+const RELATIVE_DATE_REGEX = /^([0-9]{1,9})\s*(second|minute|hour|day|week|month|year)s?$/i;
 
 export interface QueryTree {
     type: string;
     operation: string;
     left: number;
     right: string;
+
+    /**
+     * Operands of the list operations (in, nin, between)
+     */
+    list: string[];
+
     children: QueryTree[];
 }
 
+function sanitizeQueryTreeValue(value: any): string {
+    if (value === null) {
+        return null;
+    }
+
+    const str = "" + value;
+
+    return str.length > QUERY_TREE_MAX_VALUE_LENGTH ? str.substr(0, QUERY_TREE_MAX_VALUE_LENGTH) : str;
+}
+
 export function sanitizeQueryTree(tree: any, depth?: number): QueryTree {
     depth = depth || 0;
     const sanitized: QueryTree = {
@@ -20,6 +57,7 @@ export function sanitizeQueryTree(tree: any, depth?: number): QueryTree {
         operation: "",
         left: -1,
         right: "",
+        list: [],
         children: [],
     };
 
@@ -34,12 +72,10 @@ export function sanitizeQueryTree(tree: any, depth?: number): QueryTree {
 
         let operation = ("" + tree.operation).toLowerCase();
 
-        if (!["null", "eq", "lt", "le", "lte", "gt", "ge", "gte", "cn", "cni", "sw", "swi", "ew", "ewi"].includes(operation)) {
+        if (!["null", "notnull", "eq", "ne", "lt", "le", "lte", "gt", "ge", "gte", "cn", "cni", "sw", "swi", "ew", "ewi", "regex", "iregex", "fts"].concat(LIST_OPERATIONS, RELATIVE_DATE_OPERATIONS).includes(operation)) {
             operation = "";
         }
 
-        sanitized.operation = operation;
-
         let left = -1;
         if (typeof tree.left === "number") {
             left = Math.floor(tree.left);
@@ -47,18 +83,27 @@ export function sanitizeQueryTree(tree: any, depth?: number): QueryTree {
 
         sanitized.left = left;
 
-        if (tree.right === null) {
-            sanitized.right = null;
-        } else {
-            let right = "" + tree.right;
-
-            if (right.length > 1024) {
-                right = right.substr(0, 1024);
+        if (LIST_OPERATIONS.includes(operation)) {
+            if (Array.isArray(tree.right) && (operation !== "between" || tree.right.length === 2)) {
+                sanitized.list = tree.right.slice(0, QUERY_TREE_MAX_LIST).map(sanitizeQueryTreeValue);
+            } else {
+                operation = ""; // Invalid operand
             }
-
-            sanitized.right = right;
+        } else if (RELATIVE_DATE_OPERATIONS.includes(operation)) {
+            const match = RELATIVE_DATE_REGEX.exec(("" + tree.right).trim());
+
+            if (match) {
+                // Normalized, so PostgreSQL can cast it to INTERVAL
+                sanitized.right = match[1] + " " + match[2].toLowerCase();
+            } else {
+                operation = ""; // Invalid operand
+            }
+        } else {
+            sanitized.right = sanitizeQueryTreeValue(tree.right);
         }
 
+        sanitized.operation = operation;
+
         if (depth < QUERY_TREE_MAX_DEPH && (type in { anyof: 1, allof: 1, not: 1 }) && typeof tree.children === "object" && tree.children instanceof Array) {
             for (let i = 0; i < tree.children.length && i < QUERY_TREE_MAX_CHILDREN; i++) {
                 sanitized.children.push(sanitizeQueryTree(tree.children[i], depth + 1));
@@ -77,6 +122,59 @@ export interface Feature {
     index: number;
     type: FeatureType;
     name: string;
+
+    /**
+     * SQL expression, for fields computed at query time (not stored in the table)
+     */
+    expression?: string;
+
+    /**
+     * Text search configuration (regconfig), for TEXT fields
+     */
+    language?: string;
+}
+
+/**
+ * Gets the SQL to reference a feature in a query
+ * @param feature The feature
+ * @returns The quoted column name, or the SQL expression for computed fields
+ */
+export function getFeatureSQL(feature: Feature): string {
+    if (feature.expression) {
+        return "(" + feature.expression + ")";
+    }
+    return escapeIdentifier(feature.name);
+}
+
+/**
+ * Gets the SQL to select a feature, named as the feature
+ * @param feature The feature
+ * @returns The SQL for the select list
+ */
+export function getFeatureSelectSQL(feature: Feature): string {
+    if (feature.expression) {
+        return "(" + feature.expression + ") AS " + escapeIdentifier(feature.name);
+    }
+    return escapeIdentifier(feature.name);
+}
+
+/**
+ * Gets the SQL of the text search vector of a feature.
+ * The language is a literal, so the expression matches the one of the GIN index.
+ * @param feature The feature
+ * @returns The SQL expression
+ */
+export function getFeatureTextSearchSQL(feature: Feature): string {
+    return "to_tsvector(" + escapeLiteral(feature.language || DEFAULT_TEXT_SEARCH_LANGUAGE) + ", " + getFeatureSQL(feature) + ")";
+}
+
+/**
+ * Gets the SQL of a text search query for a feature
+ * @param feature The feature
+ * @returns The SQL expression, with a placeholder for the searched text
+ */
+function getTextSearchQuerySQL(feature: Feature): string {
+    return "plainto_tsquery(" + escapeLiteral(feature.language || DEFAULT_TEXT_SEARCH_LANGUAGE) + ", ?)";
 }
 
 export function turnInto(data: any, type: FeatureType): InstanceType {
@@ -221,7 +319,7 @@ export function toSQLCondition(features: Feature[], query: QueryTree): SQLCondit
         break;
     default:
     {
-        if (query.operation !== "null" && query.right === null) {
+        if (query.operation !== "null" && query.operation !== "notnull" && query.right === null) {
             return {
                 sql: "",
                 params: [],
@@ -241,52 +339,112 @@ export function toSQLCondition(features: Feature[], query: QueryTree): SQLCondit
 
         switch (query.operation) {
         case "null":
-            cond.sql = '"' + feature.name + '"' + ' IS NULL';
+            cond.sql = getFeatureSQL(feature) + ' IS NULL';
+            break;
+        case "notnull":
+            cond.sql = getFeatureSQL(feature) + ' IS NOT NULL';
             break;
         case "eq":
-            cond.sql = '"' + feature.name + '"' + ' = ?';
+            cond.sql = getFeatureSQL(feature) + ' = ?';
+            cond.params = [ cmp ];
+            break;
+        case "ne":
+            cond.sql = getFeatureSQL(feature) + ' <> ?';
             cond.params = [ cmp ];
             break;
+        case "in":
+            if (query.list.length === 0) {
+                cond.sql = 'FALSE';
+            } else {
+                cond.sql = getFeatureSQL(feature) + ' = ANY(?)';
+                cond.params = [ query.list.map(v => turnInto(v, feature.type)) ];
+            }
+            break;
+        case "nin":
+            if (query.list.length === 0) {
+                // Matches every instance, same as no condition
+                return {
+                    sql: "",
+                    params: [],
+                };
+            } else {
+                cond.sql = getFeatureSQL(feature) + ' <> ALL(?)';
+                cond.params = [ query.list.map(v => turnInto(v, feature.type)) ];
+            }
+            break;
+        case "between":
+            cond.sql = getFeatureSQL(feature) + ' BETWEEN ? AND ?';
+            cond.params = query.list.map(v => turnInto(v, feature.type));
+            break;
+        case "regex":
+            cond.sql = 'CAST(' + getFeatureSQL(feature) + ' AS TEXT) ~ ?';
+            cond.params = [ query.right ];
+            break;
+        case "iregex":
+            cond.sql = 'CAST(' + getFeatureSQL(feature) + ' AS TEXT) ~* ?';
+            cond.params = [ query.right ];
+            break;
+        case "fts":
+            if (feature.type !== "text") {
+                return {
+                    sql: "",
+                    params: [],
+                };
+            }
+            cond.sql = getFeatureTextSearchSQL(feature) + ' @@ ' + getTextSearchQuerySQL(feature);
+            cond.params = [ query.right ];
+            break;
+        case "inlast":
+        case "olderthan":
+            if (feature.type !== "date") {
+                return {
+                    sql: "",
+                    params: [],
+                };
+            }
+            cond.sql = getFeatureSQL(feature) + (query.operation === "inlast" ? ' >= ' : ' < ') + 'NOW() - CAST(? AS INTERVAL)';
+            cond.params = [ query.right ];
+            break;
         case "lt":
-            cond.sql = '"' + feature.name + '"' + ' < ?';
+            cond.sql = getFeatureSQL(feature) + ' < ?';
             cond.params = [ cmp ];
             break;
         case "le":
         case "lte":
-            cond.sql = '"' + feature.name + '"' + ' <= ?';
+            cond.sql = getFeatureSQL(feature) + ' <= ?';
             cond.params = [ cmp ];
             break;
         case "gt":
-            cond.sql = '"' + feature.name + '"' + ' > ?';
+            cond.sql = getFeatureSQL(feature) + ' > ?';
             cond.params = [ cmp ];
             break;
         case "ge":
         case "gte":
-            cond.sql = '"' + feature.name + '"' + ' >= ?';
+            cond.sql = getFeatureSQL(feature) + ' >= ?';
             cond.params = [ cmp ];
             break;
         case "cn":
-            cond.sql = '"' + feature.name + '"' + ' LIKE ?';
+            cond.sql = getFeatureSQL(feature) + ' LIKE ?';
             cond.params = [ "%" + replaceWildcards(cmp + "") + "%" ];
             break;
         case "cni":
-            cond.sql = 'LOWER("' + feature.name + '")' + ' LIKE LOWER(?)';
+            cond.sql = 'LOWER(' + getFeatureSQL(feature) + ')' + ' LIKE LOWER(?)';
             cond.params = [ "%" + replaceWildcards(cmp + "") + "%" ];
             break;
         case "sw":
-            cond.sql = '"' + feature.name + '"' + ' LIKE ?';
+            cond.sql = getFeatureSQL(feature) + ' LIKE ?';
             cond.params = [ "" + replaceWildcards(cmp + "") + "%" ];
             break;
         case "swi":
-            cond.sql = 'LOWER("' + feature.name + '")' + ' LIKE LOWER(?)';
+            cond.sql = 'LOWER(' + getFeatureSQL(feature) + ')' + ' LIKE LOWER(?)';
             cond.params = [ "" + replaceWildcards(cmp + "") + "%" ];
             break;
         case "ew":
-            cond.sql = '"' + feature.name + '"' + ' LIKE ?';
+            cond.sql = getFeatureSQL(feature) + ' LIKE ?';
             cond.params = [ "%" + replaceWildcards(cmp + "") + "" ];
             break;
         case "ewi":
-            cond.sql = 'LOWER("' + feature.name + '")' + ' LIKE LOWER(?)';
+            cond.sql = 'LOWER(' + getFeatureSQL(feature) + ')' + ' LIKE LOWER(?)';
             cond.params = [ "%" + replaceWildcards(cmp + "") + "" ];
             break;
         default:
@@ -300,3 +458,44 @@ export function toSQLCondition(features: Feature[], query: QueryTree): SQLCondit
 
     return cond;
 }
+
+/**
+ * Gets the SQL to rank the instances by relevance for the full-text search conditions (fts) of a filter.
+ * The conditions inside a "not" node are not taken into account.
+ * @param features The features
+ * @param query The filter
+ * @returns The SQL expression (higher is more relevant) and its parameters, or null if the filter has no full-text search conditions
+ */
+export function toSQLTextSearchRank(features: Feature[], query: QueryTree): SQLCondition {
+    const ranks: string[] = [];
+    const params: any[] = [];
+
+    const visit = (node: QueryTree) => {
+        if (!node || node.type === "not") {
+            return;
+        }
+
+        if (node.type === "anyof" || node.type === "allof") {
+            node.children.forEach(visit);
+            return;
+        }
+
+        const feature = features[node.left];
+
+        if (node.operation === "fts" && node.right !== null && feature && feature.type === "text") {
+            ranks.push("ts_rank(" + getFeatureTextSearchSQL(feature) + ", " + getTextSearchQuerySQL(feature) + ")");
+            params.push(node.right);
+        }
+    };
+
+    visit(query);
+
+    if (ranks.length === 0) {
+        return null;
+    }
+
+    return {
+        sql: ranks.join(" + "),
+        params: params,
+    };
+}
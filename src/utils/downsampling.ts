@@ -0,0 +1,298 @@
+// Time series downsampling utils
+
+"use strict";
+
+import { Feature, getFeatureSQL } from "./deepint-sources";
+
+const TIMESERIES_MAX_FEATURES = 16;
+const TIMESERIES_DEFAULT_POINTS = 1000;
+
+/**
+ * Max number of buckets of a time series
+ */
+export const TIMESERIES_MAX_POINTS = 10000;
+
+/**
+ * Downsampling method:
+ *  - avg: Average of each bucket
+ *  - minmax: Min and max of each bucket (envelope)
+ *  - lttb: Largest-Triangle-Three-Buckets, keeps the points that preserve the shape of the series
+ *  - last: Last value of each bucket
+ */
+export type DownsamplingMethod = "avg" | "minmax" | "lttb" | "last";
+
+const DOWNSAMPLING_METHODS: DownsamplingMethod[] = ["avg", "minmax", "lttb", "last"];
+
+export interface TimeSeriesQuery {
+    /**
+     * DATE feature with the time of the instances
+     */
+    time: Feature;
+
+    from: Date;
+    to: Date;
+
+    /**
+     * Width of the buckets (milliseconds)
+     */
+    width: number;
+
+    method: DownsamplingMethod;
+
+    /**
+     * NUMERIC features to return the series of
+     */
+    features: Feature[];
+}
+
+export interface TimeSeriesPoint {
+    /**
+     * Time (unix milliseconds). Start of the bucket for the bucketed methods.
+     */
+    time: number;
+
+    value: number;
+
+    /**
+     * Max value of the bucket (minmax method only). The min value is set as value.
+     */
+    max?: number;
+}
+
+/**
+ * Sanitizes a time series request
+ * @param features The features of the source
+ * @param json The request body
+ * @returns The time series query
+ * @throws Error if the request is not valid
+ */
+export function sanitizeTimeSeriesQuery(features: Feature[], json: any): TimeSeriesQuery {
+    const time = typeof json.feature === "number" ? features[json.feature] : undefined;
+
+    if (!time || time.type !== "date") {
+        throw new Error("feature must be the index of a DATE feature.");
+    }
+
+    const from = new Date(json.from);
+    const to = new Date(json.to);
+
+    if (json.from === undefined || json.from === null || isNaN(from.getTime()) || json.to === undefined || json.to === null || isNaN(to.getTime())) {
+        throw new Error("A valid time range (from, to) is required.");
+    }
+
+    if (from.getTime() >= to.getTime()) {
+        throw new Error("The start of the time range must be before its end.");
+    }
+
+    const range = to.getTime() - from.getTime();
+
+    let width: number;
+
+    if (json.bucket !== undefined && json.bucket !== null) {
+        // Bucket width in seconds
+        const seconds = Number(json.bucket);
+        if (typeof json.bucket !== "number" || isNaN(seconds) || seconds <= 0) {
+            throw new Error("The bucket width must be a positive number of seconds.");
+        }
+        width = Math.max(1, Math.round(seconds * 1000));
+    } else {
+        const points = (json.points === undefined || json.points === null) ? TIMESERIES_DEFAULT_POINTS : parseInt(json.points + "", 10);
+        if (isNaN(points) || points <= 0 || points > TIMESERIES_MAX_POINTS) {
+            throw new Error("The number of points must be between 1 and " + TIMESERIES_MAX_POINTS + ".");
+        }
+        width = Math.max(1, Math.ceil(range / points));
+    }
+
+    if (Math.ceil(range / width) > TIMESERIES_MAX_POINTS) {
+        throw new Error("Too many buckets. The max number of buckets is " + TIMESERIES_MAX_POINTS + ".");
+    }
+
+    const method = ((json.method === undefined || json.method === null) ? "avg" : (json.method + "")).toLowerCase();
+
+    if (!DOWNSAMPLING_METHODS.includes(<DownsamplingMethod>method)) {
+        throw new Error("Invalid downsampling method: " + json.method);
+    }
+
+    if (!Array.isArray(json.features) || json.features.length === 0 || json.features.length > TIMESERIES_MAX_FEATURES) {
+        throw new Error("features must be a list of 1 to " + TIMESERIES_MAX_FEATURES + " NUMERIC feature indexes.");
+    }
+
+    const series: Feature[] = json.features.map(index => {
+        const feature = typeof index === "number" ? features[index] : undefined;
+        if (!feature || feature.type !== "numeric") {
+            throw new Error("Invalid NUMERIC feature index: " + index);
+        }
+        return feature;
+    });
+
+    return {
+        time: time,
+        from: from,
+        to: to,
+        width: width,
+        method: <DownsamplingMethod>method,
+        features: series,
+    };
+}
+
+/**
+ * Gets the SQL aggregates to compute a bucket of a series (avg, minmax and last methods)
+ * @param method The method
+ * @param time The time feature
+ * @param feature The feature of the series
+ * @returns The SQL aggregates: the value, and the max value for the minmax method
+ */
+export function getBucketAggregatesSQL(method: DownsamplingMethod, time: Feature, feature: Feature): string[] {
+    const column = getFeatureSQL(feature);
+
+    switch (method) {
+    case "minmax":
+        return ["MIN(" + column + ")", "MAX(" + column + ")"];
+    case "last":
+        return ["(array_agg(" + column + " ORDER BY " + getFeatureSQL(time) + " DESC) FILTER (WHERE " + column + " IS NOT NULL))[1]"];
+    default:
+        return ["AVG(" + column + ")"];
+    }
+}
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling over time buckets.
+ * The points must be added in time order. Only the points of two buckets are kept in memory,
+ * so it can be fed from a cursor. The first and the last points are always kept.
+ */
+export class LTTBDownsampler {
+    private from: number;
+    private width: number;
+
+    private points: TimeSeriesPoint[];
+
+    /**
+     * Last selected point
+     */
+    private anchor: TimeSeriesPoint;
+
+    /**
+     * Last received point
+     */
+    private lastPoint: TimeSeriesPoint;
+
+    private current: TimeSeriesPoint[];
+    private currentBucket: number;
+
+    private next: TimeSeriesPoint[];
+    private nextBucket: number;
+
+    /**
+     * @param from Start of the time range (unix milliseconds)
+     * @param width Width of the buckets (milliseconds)
+     */
+    constructor(from: number, width: number) {
+        this.from = from;
+        this.width = width;
+        this.points = [];
+        this.anchor = null;
+        this.lastPoint = null;
+        this.current = [];
+        this.currentBucket = -1;
+        this.next = [];
+        this.nextBucket = -1;
+    }
+
+    /**
+     * Adds a point. Points without value are ignored.
+     * @param time Time (unix milliseconds)
+     * @param value Value
+     */
+    public add(time: number, value: number) {
+        if (value === null || value === undefined || isNaN(value)) {
+            return;
+        }
+
+        const point: TimeSeriesPoint = { time: time, value: value };
+
+        this.lastPoint = point;
+
+        if (!this.anchor) {
+            this.anchor = point;
+            this.points.push(point);
+            return;
+        }
+
+        const bucket = Math.floor((time - this.from) / this.width);
+
+        if (this.current.length === 0 || (bucket === this.currentBucket && this.next.length === 0)) {
+            this.current.push(point);
+            this.currentBucket = bucket;
+        } else if (this.next.length === 0 || bucket === this.nextBucket) {
+            this.next.push(point);
+            this.nextBucket = bucket;
+        } else {
+            // The next bucket is complete, select the point of the current one
+            this.select(average(this.next));
+            this.current = this.next;
+            this.currentBucket = this.nextBucket;
+            this.next = [point];
+            this.nextBucket = bucket;
+        }
+    }
+
+    /**
+     * Ends the series
+     * @returns The selected points, in time order
+     */
+    public finish(): TimeSeriesPoint[] {
+        if (this.current.length > 0 && this.next.length > 0) {
+            this.select(average(this.next));
+        }
+
+        // The last bucket is represented by the last point
+        if (this.lastPoint && this.lastPoint !== this.anchor) {
+            this.points.push(this.lastPoint);
+        }
+
+        this.current = [];
+        this.next = [];
+
+        return this.points;
+    }
+
+    /**
+     * Selects the point of the current bucket forming the largest triangle
+     * with the last selected point and the average of the next bucket
+     * @param c Average of the next bucket
+     */
+    private select(c: TimeSeriesPoint) {
+        const a = this.anchor;
+
+        let selected: TimeSeriesPoint = null;
+        let maxArea = -1;
+
+        for (const p of this.current) {
+            const area = Math.abs((a.time - c.time) * (p.value - a.value) - (a.time - p.time) * (c.value - a.value));
+            if (area > maxArea) {
+                maxArea = area;
+                selected = p;
+            }
+        }
+
+        if (selected) {
+            this.points.push(selected);
+            this.anchor = selected;
+        }
+    }
+}
+
+function average(points: TimeSeriesPoint[]): TimeSeriesPoint {
+    let time = 0;
+    let value = 0;
+
+    for (const p of points) {
+        time += p.time;
+        value += p.value;
+    }
+
+    return {
+        time: time / points.length,
+        value: value / points.length,
+    };
+}
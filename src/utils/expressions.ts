@@ -0,0 +1,444 @@
+// Expressions for computed fields
+
+"use strict";
+
+/**
+ * Parsed expression
+ */
+export type ExpressionNode = {
+    type: "literal";
+    value: any;
+} | {
+    type: "field";
+    name: string;
+} | {
+    type: "unary";
+    operator: string;
+    operand: ExpressionNode;
+} | {
+    type: "binary";
+    operator: string;
+    left: ExpressionNode;
+    right: ExpressionNode;
+} | {
+    type: "conditional";
+    condition: ExpressionNode;
+    then: ExpressionNode;
+    otherwise: ExpressionNode;
+} | {
+    type: "call";
+    name: string;
+    args: ExpressionNode[];
+};
+
+type ExpressionFunction = (...args: any[]) => any;
+
+function isNull(v: any): boolean {
+    return v === null || v === undefined;
+}
+
+function toNumber(v: any): number {
+    if (isNull(v)) {
+        return null;
+    }
+    if (v instanceof Date) {
+        return v.getTime();
+    }
+    const n = Number(v);
+    return isNaN(n) ? null : n;
+}
+
+function toText(v: any): string {
+    if (isNull(v)) {
+        return null;
+    }
+    if (v instanceof Date) {
+        return v.toISOString();
+    }
+    return "" + v;
+}
+
+function numeric(fn: (...args: number[]) => number): ExpressionFunction {
+    return (...args: any[]) => {
+        const n = args.map(toNumber);
+        if (n.some(isNull)) {
+            return null;
+        }
+        return fn(...n);
+    };
+}
+
+const FUNCTIONS: { [name: string]: ExpressionFunction } = {
+    abs: numeric(Math.abs),
+    floor: numeric(Math.floor),
+    ceil: numeric(Math.ceil),
+    sqrt: numeric(Math.sqrt),
+    pow: numeric(Math.pow),
+    min: numeric(Math.min),
+    max: numeric(Math.max),
+    round: (v: any, digits?: any) => {
+        const n = toNumber(v);
+        if (isNull(n)) {
+            return null;
+        }
+        const m = Math.pow(10, toNumber(digits) || 0);
+        return Math.round(n * m) / m;
+    },
+    lower: (v: any) => {
+        const s = toText(v);
+        return isNull(s) ? null : s.toLowerCase();
+    },
+    upper: (v: any) => {
+        const s = toText(v);
+        return isNull(s) ? null : s.toUpperCase();
+    },
+    trim: (v: any) => {
+        const s = toText(v);
+        return isNull(s) ? null : s.trim();
+    },
+    length: (v: any) => {
+        const s = toText(v);
+        return isNull(s) ? null : s.length;
+    },
+    substr: (v: any, start: any, length?: any) => {
+        const s = toText(v);
+        return isNull(s) ? null : s.substr(toNumber(start) || 0, isNull(length) ? undefined : toNumber(length));
+    },
+    concat: (...args: any[]) => {
+        return args.map(a => {
+            return isNull(a) ? "" : toText(a);
+        }).join("");
+    },
+    coalesce: (...args: any[]) => {
+        const v = args.find(a => !isNull(a));
+        return isNull(v) ? null : v;
+    },
+    number: (v: any) => {
+        return toNumber(v);
+    },
+    string: (v: any) => {
+        return toText(v);
+    },
+    now: () => {
+        return new Date();
+    },
+};
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!", "?", ":", "(", ")", ","];
+
+interface Token {
+    type: "number" | "string" | "name" | "operator";
+    value: string;
+    pos: number;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const c = source.charAt(i);
+
+        if (/\s/.test(c)) {
+            i++;
+        } else if (/[0-9.]/.test(c)) {
+            const m = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(source.substr(i));
+            if (!m) {
+                throw new Error(`Unexpected character "${c}" at position ${i}`);
+            }
+            tokens.push({ type: "number", value: m[0], pos: i });
+            i += m[0].length;
+        } else if (/[A-Za-z_]/.test(c)) {
+            const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.substr(i));
+            tokens.push({ type: "name", value: m[0], pos: i });
+            i += m[0].length;
+        } else if (c === "\"" || c === "'") {
+            let value = "";
+            let j = i + 1;
+            while (j < source.length && source.charAt(j) !== c) {
+                if (source.charAt(j) === "\\" && j + 1 < source.length) {
+                    j++;
+                }
+                value += source.charAt(j);
+                j++;
+            }
+            if (j >= source.length) {
+                throw new Error(`Unterminated string at position ${i}`);
+            }
+            tokens.push({ type: "string", value: value, pos: i });
+            i = j + 1;
+        } else {
+            const op = OPERATORS.find(o => source.substr(i, o.length) === o);
+            if (!op) {
+                throw new Error(`Unexpected character "${c}" at position ${i}`);
+            }
+            tokens.push({ type: "operator", value: op, pos: i });
+            i += op.length;
+        }
+    }
+
+    return tokens;
+}
+
+const BINARY_PRECEDENCE: { [op: string]: number } = {
+    "||": 1,
+    "&&": 2,
+    "==": 3,
+    "!=": 3,
+    "<": 4,
+    "<=": 4,
+    ">": 4,
+    ">=": 4,
+    "+": 5,
+    "-": 5,
+    "*": 6,
+    "/": 6,
+    "%": 6,
+};
+
+class ExpressionParser {
+    private tokens: Token[];
+    private pos: number;
+
+    constructor(source: string) {
+        this.tokens = tokenize(source);
+        this.pos = 0;
+    }
+
+    public parse(): ExpressionNode {
+        const node = this.parseConditional();
+        if (this.pos < this.tokens.length) {
+            throw new Error(`Unexpected "${this.tokens[this.pos].value}" at position ${this.tokens[this.pos].pos}`);
+        }
+        return node;
+    }
+
+    private peek(value: string): boolean {
+        const token = this.tokens[this.pos];
+        return !!token && token.type === "operator" && token.value === value;
+    }
+
+    private expect(value: string) {
+        if (!this.peek(value)) {
+            const token = this.tokens[this.pos];
+            throw new Error(token ? `Expected "${value}" at position ${token.pos}` : `Expected "${value}" at the end`);
+        }
+        this.pos++;
+    }
+
+    private parseConditional(): ExpressionNode {
+        const condition = this.parseBinary(1);
+
+        if (this.peek("?")) {
+            this.pos++;
+            const then = this.parseConditional();
+            this.expect(":");
+            const otherwise = this.parseConditional();
+            return { type: "conditional", condition: condition, then: then, otherwise: otherwise };
+        }
+
+        return condition;
+    }
+
+    private parseBinary(precedence: number): ExpressionNode {
+        let left = this.parseUnary();
+
+        for (;;) {
+            const token = this.tokens[this.pos];
+            if (!token || token.type !== "operator" || !BINARY_PRECEDENCE[token.value] || BINARY_PRECEDENCE[token.value] < precedence) {
+                return left;
+            }
+            this.pos++;
+            const right = this.parseBinary(BINARY_PRECEDENCE[token.value] + 1);
+            left = { type: "binary", operator: token.value, left: left, right: right };
+        }
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.peek("-") || this.peek("!")) {
+            const operator = this.tokens[this.pos].value;
+            this.pos++;
+            return { type: "unary", operator: operator, operand: this.parseUnary() };
+        }
+
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.tokens[this.pos];
+
+        if (!token) {
+            throw new Error("Unexpected end of the expression");
+        }
+
+        this.pos++;
+
+        switch (token.type) {
+        case "number":
+            return { type: "literal", value: Number(token.value) };
+        case "string":
+            return { type: "literal", value: token.value };
+        case "name":
+            if (token.value === "true" || token.value === "false") {
+                return { type: "literal", value: token.value === "true" };
+            }
+            if (token.value === "null") {
+                return { type: "literal", value: null };
+            }
+            if (this.peek("(")) {
+                this.pos++;
+                const args: ExpressionNode[] = [];
+                if (!this.peek(")")) {
+                    args.push(this.parseConditional());
+                    while (this.peek(",")) {
+                        this.pos++;
+                        args.push(this.parseConditional());
+                    }
+                }
+                this.expect(")");
+                if (token.value === "field") {
+                    // field("name") refers to fields with names that are not identifiers
+                    if (args.length !== 1 || args[0].type !== "literal" || typeof args[0].value !== "string") {
+                        throw new Error(`The field function requires a field name at position ${token.pos}`);
+                    }
+                    return { type: "field", name: args[0].value };
+                }
+                if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+                    throw new Error(`Unknown function "${token.value}" at position ${token.pos}`);
+                }
+                return { type: "call", name: token.value, args: args };
+            }
+            return { type: "field", name: token.value };
+        default:
+            if (token.value === "(") {
+                const node = this.parseConditional();
+                this.expect(")");
+                return node;
+            }
+            throw new Error(`Unexpected "${token.value}" at position ${token.pos}`);
+        }
+    }
+}
+
+/**
+ * Parses an expression.
+ * Throws an error if the expression is not valid.
+ * @param source The expression. Example: temperature * 9 / 5 + 32
+ * @returns The parsed expression
+ */
+export function parseExpression(source: string): ExpressionNode {
+    return (new ExpressionParser(source)).parse();
+}
+
+/**
+ * Lists the fields referenced by an expression
+ * @param node The parsed expression
+ * @returns The names of the fields
+ */
+export function getExpressionFields(node: ExpressionNode): string[] {
+    switch (node.type) {
+    case "field":
+        return [node.name];
+    case "unary":
+        return getExpressionFields(node.operand);
+    case "binary":
+        return getExpressionFields(node.left).concat(getExpressionFields(node.right));
+    case "conditional":
+        return getExpressionFields(node.condition).concat(getExpressionFields(node.then), getExpressionFields(node.otherwise));
+    case "call":
+        return node.args.reduce((fields, arg) => fields.concat(getExpressionFields(arg)), <string[]>[]);
+    default:
+        return [];
+    }
+}
+
+function compare(a: any, b: any): number {
+    const x = a instanceof Date ? a.getTime() : a;
+    const y = b instanceof Date ? b.getTime() : b;
+
+    if ((typeof x === "number" || typeof y === "number") && !isNull(toNumber(x)) && !isNull(toNumber(y))) {
+        return toNumber(x) - toNumber(y);
+    }
+
+    const s1 = toText(x);
+    const s2 = toText(y);
+
+    return s1 < s2 ? -1 : (s1 > s2 ? 1 : 0);
+}
+
+/**
+ * Evaluates an expression.
+ * Operations with null values result in null.
+ * @param node The parsed expression
+ * @param values Values of the fields, by name
+ * @returns The result
+ */
+export function evaluateExpression(node: ExpressionNode, values: { [name: string]: any }): any {
+    switch (node.type) {
+    case "literal":
+        return node.value;
+    case "field":
+        return Object.prototype.hasOwnProperty.call(values, node.name) && !isNull(values[node.name]) ? values[node.name] : null;
+    case "unary":
+    {
+        const v = evaluateExpression(node.operand, values);
+        if (node.operator === "!") {
+            return !v;
+        }
+        const n = toNumber(v);
+        return isNull(n) ? null : -n;
+    }
+    case "conditional":
+        return evaluateExpression(node.condition, values) ? evaluateExpression(node.then, values) : evaluateExpression(node.otherwise, values);
+    case "call":
+        return FUNCTIONS[node.name](...node.args.map(arg => evaluateExpression(arg, values)));
+    case "binary":
+    {
+        if (node.operator === "&&") {
+            return !!evaluateExpression(node.left, values) && !!evaluateExpression(node.right, values);
+        }
+
+        if (node.operator === "||") {
+            return !!evaluateExpression(node.left, values) || !!evaluateExpression(node.right, values);
+        }
+
+        const a = evaluateExpression(node.left, values);
+        const b = evaluateExpression(node.right, values);
+
+        if (node.operator === "==" || node.operator === "!=") {
+            const equal = (isNull(a) || isNull(b)) ? (isNull(a) && isNull(b)) : compare(a, b) === 0;
+            return node.operator === "==" ? equal : !equal;
+        }
+
+        if (isNull(a) || isNull(b)) {
+            return null;
+        }
+
+        switch (node.operator) {
+        case "<":
+            return compare(a, b) < 0;
+        case "<=":
+            return compare(a, b) <= 0;
+        case ">":
+            return compare(a, b) > 0;
+        case ">=":
+            return compare(a, b) >= 0;
+        case "+":
+            if (typeof a === "string" || typeof b === "string") {
+                return toText(a) + toText(b);
+            }
+            return numeric((x, y) => x + y)(a, b);
+        case "-":
+            return numeric((x, y) => x - y)(a, b);
+        case "*":
+            return numeric((x, y) => x * y)(a, b);
+        case "/":
+            return numeric((x, y) => y === 0 ? null : x / y)(a, b);
+        case "%":
+            return numeric((x, y) => y === 0 ? null : x % y)(a, b);
+        default:
+            return null;
+        }
+    }
+    }
+}
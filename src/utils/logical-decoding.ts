@@ -0,0 +1,258 @@
+// Logical decoding utils
+
+"use strict";
+
+import { types } from "pg";
+
+export type ReplicationAction = "insert" | "update" | "delete" | "truncate";
+
+export interface ReplicationChange {
+    action: ReplicationAction;
+    schema: string;
+    table: string;
+
+    /**
+     * New values of the row, by column name (insert and update).
+     * Columns with unknown value (unchanged TOAST values) are not included.
+     */
+    values: { [column: string]: any };
+}
+
+/**
+ * Parses a change in the output format of wal2json (format-version 2)
+ * @param data The change, as returned by pg_logical_slot_peek_changes
+ * @returns The change, or null if the message is not a row change
+ */
+export function parseWal2JsonChange(data: string): ReplicationChange {
+    let json;
+
+    try {
+        json = JSON.parse(data);
+    } catch (ex) {
+        return null;
+    }
+
+    if (!json || typeof json !== "object") {
+        return null;
+    }
+
+    let action: ReplicationAction;
+
+    switch (json.action) {
+    case "I":
+        action = "insert";
+        break;
+    case "U":
+        action = "update";
+        break;
+    case "D":
+        action = "delete";
+        break;
+    case "T":
+        action = "truncate";
+        break;
+    default:
+        return null;
+    }
+
+    const values = Object.create(null);
+
+    if (Array.isArray(json.columns)) {
+        for (const column of json.columns) {
+            values[column.name] = column.value;
+        }
+    }
+
+    return {
+        action: action,
+        schema: json.schema + "",
+        table: json.table + "",
+        values: values,
+    };
+}
+
+interface PgOutputRelation {
+    schema: string;
+    table: string;
+    columns: { name: string, typeId: number }[];
+}
+
+/**
+ * Decoder for the binary output of the pgoutput plugin (protocol version 1).
+ * Keeps the relations announced by the stream to decode the row changes.
+ */
+export class PgOutputDecoder {
+    private relations: Map<number, PgOutputRelation>;
+
+    private buffer: Buffer;
+    private offset: number;
+
+    constructor() {
+        this.relations = new Map();
+        this.buffer = null;
+        this.offset = 0;
+    }
+
+    /**
+     * Decodes a message
+     * @param data The message, as returned by pg_logical_slot_peek_binary_changes
+     * @returns The changes in the message
+     */
+    public decode(data: Buffer): ReplicationChange[] {
+        this.buffer = data;
+        this.offset = 0;
+
+        const type = this.readByte();
+
+        switch (type) {
+        case "R":
+            this.decodeRelation();
+            return [];
+        case "I":
+        {
+            const relation = this.relations.get(this.readInt32());
+            this.readByte(); // N
+            return this.toChanges("insert", relation, this.readTuple(relation));
+        }
+        case "U":
+        {
+            const relation = this.relations.get(this.readInt32());
+            let kind = this.readByte();
+            if (kind === "K" || kind === "O") {
+                this.readTuple(relation); // Old values
+                kind = this.readByte();
+            }
+            return this.toChanges("update", relation, this.readTuple(relation));
+        }
+        case "D":
+            return this.toChanges("delete", this.relations.get(this.readInt32()), Object.create(null));
+        case "T":
+        {
+            const changes: ReplicationChange[] = [];
+            const count = this.readInt32();
+            this.readInt8(); // Options
+            for (let i = 0; i < count; i++) {
+                for (const change of this.toChanges("truncate", this.relations.get(this.readInt32()), Object.create(null))) {
+                    changes.push(change);
+                }
+            }
+            return changes;
+        }
+        default:
+            // Begin, commit, origin, type
+            return [];
+        }
+    }
+
+    private toChanges(action: ReplicationAction, relation: PgOutputRelation, values: { [column: string]: any }): ReplicationChange[] {
+        if (!relation) {
+            return [];
+        }
+
+        return [{
+            action: action,
+            schema: relation.schema,
+            table: relation.table,
+            values: values,
+        }];
+    }
+
+    private decodeRelation() {
+        const id = this.readInt32();
+        const schema = this.readString();
+        const table = this.readString();
+        this.readInt8(); // Replica identity
+        const count = this.readInt16();
+        const columns = [];
+
+        for (let i = 0; i < count; i++) {
+            this.readInt8(); // Flags
+            const name = this.readString();
+            const typeId = this.readInt32();
+            this.readInt32(); // Type modifier
+            columns.push({
+                name: name,
+                typeId: typeId,
+            });
+        }
+
+        this.relations.set(id, {
+            schema: schema,
+            table: table,
+            columns: columns,
+        });
+    }
+
+    private readTuple(relation: PgOutputRelation): { [column: string]: any } {
+        const values = Object.create(null);
+        const count = this.readInt16();
+
+        for (let i = 0; i < count; i++) {
+            const kind = this.readByte();
+            const column = relation ? relation.columns[i] : null;
+
+            switch (kind) {
+            case "n":
+                if (column) {
+                    values[column.name] = null;
+                }
+                break;
+            case "t":
+            {
+                const length = this.readInt32();
+                const text = this.buffer.toString("utf8", this.offset, this.offset + length);
+                this.offset += length;
+                if (column) {
+                    // Parse the value the same way as the query results
+                    values[column.name] = types.getTypeParser(column.typeId, "text")(text);
+                }
+                break;
+            }
+            default:
+                // Unchanged TOAST value
+            }
+        }
+
+        return values;
+    }
+
+    private readByte(): string {
+        const b = String.fromCharCode(this.buffer.readUInt8(this.offset));
+        this.offset += 1;
+        return b;
+    }
+
+    private readInt8(): number {
+        const n = this.buffer.readInt8(this.offset);
+        this.offset += 1;
+        return n;
+    }
+
+    private readInt16(): number {
+        const n = this.buffer.readInt16BE(this.offset);
+        this.offset += 2;
+        return n;
+    }
+
+    private readInt32(): number {
+        const n = this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        return n;
+    }
+
+    private readString(): string {
+        const end = this.buffer.indexOf(0, this.offset);
+        const str = this.buffer.toString("utf8", this.offset, end);
+        this.offset = end + 1;
+        return str;
+    }
+}
+
+/**
+ * Escapes a schema or table name for the wal2json add-tables option
+ * @param name The name
+ * @returns The escaped name
+ */
+export function escapeWal2JsonName(name: string): string {
+    return name.replace(/([\\,.* ])/g, "\\$1");
+}
@@ -0,0 +1,135 @@
+// Keyset pagination utils
+
+"use strict";
+
+import { Feature, getFeatureSQL } from "./deepint-sources";
+
+/**
+ * Prefix of the extra columns selected to build the continuation tokens
+ */
+export const KEYSET_COLUMN_PREFIX = "__keyset_";
+
+/**
+ * Position of the last returned row, to continue a query after it
+ */
+export interface ContinuationToken {
+    /**
+     * Index of the feature to order by (-1 for no order)
+     */
+    order: number;
+
+    /**
+     * Order direction
+     */
+    dir: "asc" | "desc";
+
+    /**
+     * Values of the order feature (if any) and the primary key of the row, as text
+     */
+    keys: string[];
+}
+
+/**
+ * Encodes a continuation token
+ * @param token The token
+ * @returns The opaque token, to be sent to the client
+ */
+export function encodeContinuationToken(token: ContinuationToken): string {
+    return Buffer.from(JSON.stringify({ o: token.order, d: token.dir, k: token.keys }), "utf8").toString("base64");
+}
+
+/**
+ * Decodes a continuation token
+ * @param str The opaque token
+ * @param keyCount Expected number of keys
+ * @returns The token
+ * @throws Error if the token is not valid
+ */
+export function decodeContinuationToken(str: string, keyCount: number): ContinuationToken {
+    let json: any;
+
+    try {
+        json = JSON.parse(Buffer.from(str + "", "base64").toString("utf8"));
+    } catch (ex) {
+        throw new Error("Invalid continuation token.");
+    }
+
+    if (!json || typeof json !== "object" || typeof json.o !== "number" || (json.d !== "asc" && json.d !== "desc") ||
+        !Array.isArray(json.k) || json.k.length !== keyCount || json.k.some(k => k !== null && typeof k !== "string")) {
+        throw new Error("Invalid continuation token.");
+    }
+
+    return {
+        order: json.o,
+        dir: json.d,
+        keys: json.k,
+    };
+}
+
+/**
+ * Gets the features a keyset is made of: the order feature (if any) followed by the primary key
+ * @param order The order feature, or null
+ * @param primaryKey The primary key
+ * @returns The keyset features
+ */
+export function getKeysetFeatures(order: Feature, primaryKey: Feature[]): Feature[] {
+    return (order ? [order] : []).concat(primaryKey);
+}
+
+/**
+ * Builds the condition to select the rows after a keyset position,
+ * following the default PostgreSQL NULL ordering (NULLS LAST for ASC, NULLS FIRST for DESC).
+ * The values are compared as text parameters, so PostgreSQL casts them to the column types without losing precision.
+ * @param features The keyset features
+ * @param keys The values of the keyset features in the last returned row
+ * @param dir The order direction
+ * @returns The SQL condition (with ? placeholders) and its parameters
+ */
+export function getKeysetCondition(features: Feature[], keys: string[], dir: "asc" | "desc"): { sql: string, params: any[] } {
+    const params: any[] = [];
+
+    const build = (i: number): string => {
+        const column = getFeatureSQL(features[i]);
+        const key = keys[i];
+
+        let after: string;
+
+        if (dir === "asc") {
+            if (key === null) {
+                after = "FALSE";
+            } else {
+                after = "(" + column + " > ? OR " + column + " IS NULL)";
+                params.push(key);
+            }
+        } else {
+            if (key === null) {
+                after = column + " IS NOT NULL";
+            } else {
+                after = column + " < ?";
+                params.push(key);
+            }
+        }
+
+        if (i === features.length - 1) {
+            return after;
+        }
+
+        let equal: string;
+
+        if (key === null) {
+            equal = column + " IS NULL";
+        } else {
+            equal = column + " = ?";
+            params.push(key);
+        }
+
+        return "(" + after + " OR (" + equal + " AND " + build(i + 1) + "))";
+    };
+
+    const sql = build(0);
+
+    return {
+        sql: sql,
+        params: params,
+    };
+}
@@ -0,0 +1,128 @@
+// Payload decoders
+
+"use strict";
+
+import { decode as decodeMessagePack } from "@msgpack/msgpack";
+import { decode as decodeCBOR } from "cbor-x";
+import { Feature } from "./deepint-sources";
+
+/**
+ * Decodes a received payload.
+ * Throws an error if the payload is not valid.
+ * @param message The raw payload
+ * @param fields The fields received in the payloads (not computed at query nor ingestion time), in mapping order
+ * @returns The decoded payload: an object, an array of objects or a scalar
+ */
+export type PayloadDecoder = (message: Buffer, fields: Feature[]) => any;
+
+const decoders: Map<string, PayloadDecoder> = new Map();
+
+/**
+ * Registers a payload decoder
+ * @param format Name of the format (value of payloadFormat in the table mapping)
+ * @param decoder The decoder
+ */
+export function registerPayloadDecoder(format: string, decoder: PayloadDecoder) {
+    decoders.set(format.toLowerCase(), decoder);
+}
+
+/**
+ * Gets the decoder of a payload format
+ * @param format Name of the format
+ * @returns The decoder, or null if the format is not registered
+ */
+export function getPayloadDecoder(format: string): PayloadDecoder {
+    return decoders.get((format + "").toLowerCase()) || null;
+}
+
+/**
+ * Splits a CSV line into values
+ * @param line The line
+ * @returns The values. Empty values are returned as null.
+ */
+export function parseCSVLine(line: string): string[] {
+    const values: string[] = [];
+    let value = "";
+    let quoted = false;
+    let wasQuoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const c = line.charAt(i);
+
+        if (quoted) {
+            if (c === "\"") {
+                if (line.charAt(i + 1) === "\"") {
+                    value += "\"";
+                    i++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                value += c;
+            }
+        } else if (c === "\"") {
+            quoted = true;
+            wasQuoted = true;
+        } else if (c === ",") {
+            values.push((value || wasQuoted) ? value : null);
+            value = "";
+            wasQuoted = false;
+        } else {
+            value += c;
+        }
+    }
+
+    if (quoted) {
+        throw new Error("Unterminated quoted value");
+    }
+
+    values.push((value || wasQuoted) ? value : null);
+
+    return values;
+}
+
+registerPayloadDecoder("json", (message) => {
+    return JSON.parse(message.toString());
+});
+
+registerPayloadDecoder("csv", (message, fields) => {
+    const rows = message.toString().split(/\r?\n/).filter(line => {
+        return line.trim() !== "";
+    }).map(line => {
+        const values = parseCSVLine(line);
+
+        if (values.length !== fields.length) {
+            throw new Error(`Expected ${fields.length} values, found ${values.length}`);
+        }
+
+        const row = Object.create(null);
+
+        for (let i = 0; i < fields.length; i++) {
+            row[fields[i].name] = values[i];
+        }
+
+        return row;
+    });
+
+    return rows.length === 1 ? rows[0] : rows;
+});
+
+registerPayloadDecoder("msgpack", (message) => {
+    return decodeMessagePack(message);
+});
+
+registerPayloadDecoder("cbor", (message) => {
+    return decodeCBOR(message);
+});
+
+registerPayloadDecoder("raw", (message) => {
+    const str = message.toString().trim();
+
+    if (!str) {
+        throw new Error("Empty payload");
+    }
+
+    const n = Number(str);
+
+    return isNaN(n) ? str : n;
+});
@@ -0,0 +1,104 @@
+// Payload mapping utils
+
+"use strict";
+
+import { PayloadMapping } from "../config";
+
+/**
+ * Resolves a path inside an object
+ * @param obj The object
+ * @param path The path. JSON pointer (eg: /sensor/t) or dot path (eg: sensor.t, readings[0].t)
+ * @returns The value, or undefined if not found
+ */
+export function resolvePath(obj: any, path: string): any {
+    let keys: string[];
+
+    if (path.startsWith("/")) {
+        keys = path.substr(1).split("/").map(k => {
+            return k.replace(/~1/g, "/").replace(/~0/g, "~");
+        });
+    } else if (path) {
+        keys = path.replace(/\[(\d+)\]/g, ".$1").split(".").filter(k => {
+            return k !== "";
+        });
+    } else {
+        keys = [];
+    }
+
+    let value = obj;
+
+    for (const key of keys) {
+        if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, key)) {
+            return undefined;
+        }
+        value = value[key];
+    }
+
+    return value;
+}
+
+/**
+ * Applies the mapping rules of a table to a received payload
+ * @param mapping The mapping rules (null for no rules)
+ * @param payload The decoded payload
+ * @param topic The topic the payload was received from
+ * @param captures Named captures of the topic. They fill the fields with the same name missing in the payload.
+ * @returns The rows, objects with the names of the fields as keys
+ */
+export function applyPayloadMapping(mapping: PayloadMapping, payload: any, topic: string, captures?: { [name: string]: string }): any[] {
+    let items: any[];
+
+    mapping = mapping || {};
+
+    if (mapping.explode) {
+        const exploded = resolvePath(payload, mapping.explode);
+        if (Array.isArray(exploded)) {
+            items = exploded;
+        } else if (exploded === undefined) {
+            items = [];
+        } else {
+            items = [exploded];
+        }
+    } else if (Array.isArray(payload)) {
+        items = payload;
+    } else {
+        items = [payload];
+    }
+
+    const segments = topic.split("/");
+
+    return items.map(item => {
+        const row = Object.create(null);
+
+        // Fields without rules are taken by name
+        if (item && typeof item === "object" && !Array.isArray(item)) {
+            for (const key of Object.keys(item)) {
+                row[key] = item[key];
+            }
+        }
+
+        for (const field of Object.keys(mapping.fields || {})) {
+            const rule = mapping.fields[field];
+
+            if (rule.value !== undefined) {
+                row[field] = rule.value;
+            } else if (rule.topicCapture !== undefined) {
+                row[field] = captures ? captures[rule.topicCapture] : undefined;
+            } else if (rule.topicSegment !== undefined) {
+                row[field] = segments[rule.topicSegment < 0 ? (segments.length + rule.topicSegment) : rule.topicSegment];
+            } else if (rule.rootPath !== undefined) {
+                row[field] = resolvePath(payload, rule.rootPath);
+            } else if (rule.path !== undefined) {
+                row[field] = resolvePath(item, rule.path);
+            }
+        }
+
+        for (const name of Object.keys(captures || {})) {
+            if (row[name] === undefined) {
+                row[name] = captures[name];
+            }
+        }
+
+        return row;
+    });
+}
@@ -0,0 +1,85 @@
+// SQL builder utils
+
+"use strict";
+
+import Crypto from "crypto";
+
+/**
+ * Max length (bytes) of a PostgreSQL identifier. Longer ones are truncated by the server.
+ */
+const PG_MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Escapes an identifier (table, column, schema...) for PostgreSQL.
+ * Any legal identifier is accepted, including the ones with quotes.
+ * @param name The identifier
+ * @returns The quoted identifier
+ */
+export function escapeIdentifier(name: string): string {
+    name = name + "";
+
+    if (name.length === 0 || name.includes("\u0000")) {
+        throw new Error("Invalid SQL identifier: " + JSON.stringify(name));
+    }
+
+    return "\"" + name.replace(/"/g, "\"\"") + "\"";
+}
+
+/**
+ * Shortens a generated identifier (index names...) to the PostgreSQL max length.
+ * Long names are truncated and suffixed with a hash of the full name, so they stay unique
+ * and the server stores them unchanged.
+ * @param name The full name
+ * @returns The name to use
+ */
+export function toIdentifierName(name: string): string {
+    name = name + "";
+
+    if (Buffer.byteLength(name, "utf8") <= PG_MAX_IDENTIFIER_LENGTH) {
+        return name;
+    }
+
+    const suffix = "_" + Crypto.createHash("sha256").update(name, "utf8").digest("hex").substr(0, 8);
+
+    let prefix = "";
+
+    // Truncate by characters, so multi-byte characters are not split
+    for (const c of name) {
+        if (Buffer.byteLength(prefix + c + suffix, "utf8") > PG_MAX_IDENTIFIER_LENGTH) {
+            break;
+        }
+        prefix += c;
+    }
+
+    return prefix + suffix;
+}
+
+/**
+ * Escapes a possibly schema-qualified name
+ * @param schema The schema. Empty for the current schema (search_path).
+ * @param name The name
+ * @returns The quoted name
+ */
+export function qualifiedName(schema: string, name: string): string {
+    if (schema) {
+        return escapeIdentifier(schema) + "." + escapeIdentifier(name);
+    }
+
+    return escapeIdentifier(name);
+}
+
+/**
+ * Escapes a string literal for PostgreSQL.
+ * Use it only where parameters are not allowed (DDL).
+ * @param value The value
+ * @returns The quoted literal
+ */
+export function escapeLiteral(value: string): string {
+    value = value + "";
+
+    if (value.includes("\u0000")) {
+        throw new Error("Invalid SQL literal: " + JSON.stringify(value));
+    }
+
+    return "'" + value.replace(/'/g, "''") + "'";
+}
@@ -13,16 +13,36 @@ export function secureStringCompare(a: string, b: string): boolean {
 }
 
 /**
- * Converts query template to pg-compatible
+ * Matches the parts of a SQL sentence where a question mark is not a placeholder
+ * (string literals, quoted identifiers, dollar-quoted strings and comments), or a placeholder
+ */
+const SQL_TEMPLATE_TOKENS = /(?<![A-Za-z0-9_])[Ee]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$|--[^\n]*|\/\*[\s\S]*?\*\/|\?/g;
+
+/**
+ * Converts query template to pg-compatible.
+ * Question marks inside string literals, quoted identifiers and comments are kept.
  * @param queryTemplate Original template
  * @returns PostgreSQL template
  */
 export function toPostgresTemplate(queryTemplate: string): string {
-    let i = 1;
-    while (queryTemplate.indexOf("?") >= 0) {
-        queryTemplate = queryTemplate.replace("?", "$" + i);
+    let i = 0;
+    return queryTemplate.replace(SQL_TEMPLATE_TOKENS, token => {
+        if (token !== "?") {
+            return token;
+        }
         i++;
-    }
-    return queryTemplate;
+        return "$" + i;
+    });
 }
 
+/**
+ * Removes the string literals, quoted identifiers and comments of a SQL sentence,
+ * so the rest of the sentence can be checked for symbols
+ * @param sentence The SQL sentence
+ * @returns The sentence, with those parts replaced by spaces
+ */
+export function removeSQLLiterals(sentence: string): string {
+    return sentence.replace(SQL_TEMPLATE_TOKENS, token => {
+        return token === "?" ? token : " ";
+    });
+}
@@ -0,0 +1,89 @@
+// MQTT topic utils
+
+"use strict";
+
+export interface TopicPattern {
+    /**
+     * Topic filter to subscribe to (named captures replaced by +)
+     */
+    filter: string;
+
+    /**
+     * Levels of the filter
+     */
+    levels: string[];
+
+    /**
+     * Capture name for each level (null if the level is not a named capture)
+     */
+    captures: string[];
+}
+
+/**
+ * Parses a topic pattern
+ * @param pattern The pattern. MQTT topic filter (with + and # wildcards). Levels like {name} are named captures (single level).
+ * @returns The parsed pattern
+ */
+export function parseTopicPattern(pattern: string): TopicPattern {
+    const captures: string[] = [];
+
+    const levels = pattern.split("/").map(level => {
+        const m = /^\{([^{}\/+#]+)\}$/.exec(level);
+        if (m) {
+            captures.push(m[1]);
+            return "+";
+        }
+        captures.push(null);
+        return level;
+    });
+
+    return {
+        filter: levels.join("/"),
+        levels: levels,
+        captures: captures,
+    };
+}
+
+/**
+ * Matches a topic against a pattern
+ * @param pattern The pattern
+ * @param topic The topic
+ * @returns The named captures, or null if the topic does not match the pattern
+ */
+export function matchTopic(pattern: TopicPattern, topic: string): { [name: string]: string } {
+    const topicLevels = topic.split("/");
+    const captures = Object.create(null);
+
+    for (let i = 0; i < pattern.levels.length; i++) {
+        const level = pattern.levels[i];
+
+        if (level === "#") {
+            // Wildcards do not match the topics starting with $
+            if (i === 0 && topic.startsWith("$")) {
+                return null;
+            }
+            return captures;
+        }
+
+        if (i >= topicLevels.length) {
+            return null;
+        }
+
+        if (level === "+") {
+            if (i === 0 && topic.startsWith("$")) {
+                return null;
+            }
+            if (pattern.captures[i]) {
+                captures[pattern.captures[i]] = topicLevels[i];
+            }
+        } else if (level !== topicLevels[i]) {
+            return null;
+        }
+    }
+
+    if (topicLevels.length !== pattern.levels.length) {
+        return null;
+    }
+
+    return captures;
+}
@@ -0,0 +1,240 @@
+// Field validation utils
+
+"use strict";
+
+import { Feature, FeatureType, InstanceType, turnInto } from "./deepint-sources";
+
+export type InvalidValuePolicy = "reject" | "null" | "clamp";
+
+export interface FieldRulesConfig {
+    required?: boolean;
+    min?: number | string;
+    max?: number | string;
+    regex?: string;
+    enum?: (string | number | boolean)[];
+    maxLength?: number;
+    default?: string | number | boolean;
+    onInvalid?: InvalidValuePolicy;
+}
+
+/**
+ * Validation rules of a field, ready to be applied
+ */
+export interface FieldRules {
+    required: boolean;
+    min: number | Date;
+    max: number | Date;
+    regex: RegExp;
+    enum: InstanceType[];
+    maxLength: number;
+    default: InstanceType;
+    onInvalid: InvalidValuePolicy;
+}
+
+export interface FieldValidationResult {
+    /**
+     * The resulting value
+     */
+    value: InstanceType;
+
+    /**
+     * If the value must be rejected, the reason. Empty string otherwise.
+     */
+    error: string;
+
+    /**
+     * If the value was changed by the rules, what was done. Empty string otherwise.
+     */
+    change: string;
+}
+
+/**
+ * Parses the validation rules of a field
+ * @param type Type of the field
+ * @param config The rules, from the table mapping
+ * @returns The rules, or null if the field has no rules
+ */
+export function parseFieldRules(type: FeatureType, config: FieldRulesConfig): FieldRules {
+    const keys: (keyof FieldRulesConfig)[] = ["required", "min", "max", "regex", "enum", "maxLength", "default", "onInvalid"];
+
+    if (!keys.some(key => config[key] !== undefined)) {
+        return null;
+    }
+
+    return {
+        required: !!config.required,
+        min: parseLimit(type, config.min),
+        max: parseLimit(type, config.max),
+        regex: config.regex !== undefined ? new RegExp(config.regex) : null,
+        enum: config.enum !== undefined ? config.enum.map(v => turnInto(v, type)) : null,
+        maxLength: config.maxLength !== undefined ? config.maxLength : -1,
+        default: config.default !== undefined ? turnInto(config.default, type) : null,
+        onInvalid: config.onInvalid || "reject",
+    };
+}
+
+function parseLimit(type: FeatureType, limit: number | string): number | Date {
+    if (limit === undefined || limit === null) {
+        return null;
+    }
+
+    if (type === "date") {
+        const date = new Date(limit);
+        if (isNaN(date.getTime())) {
+            throw new Error(`Invalid date limit: ${limit}`);
+        }
+        return date;
+    }
+
+    const n = Number(limit);
+    if (isNaN(n)) {
+        throw new Error(`Invalid numeric limit: ${limit}`);
+    }
+    return n;
+}
+
+function compareValues(a: InstanceType, b: InstanceType): number {
+    const x = a instanceof Date ? a.getTime() : a;
+    const y = b instanceof Date ? b.getTime() : b;
+
+    if (x < y) {
+        return -1;
+    } else if (x > y) {
+        return 1;
+    } else {
+        return 0;
+    }
+}
+
+/**
+ * Converts a received value into the type of the field, applying its validation rules
+ * @param feature The field
+ * @param rules The rules of the field (null for no rules)
+ * @param data The received value
+ * @param partial True if the value is part of a partial instance (modify). The default value is not applied.
+ * @returns The result
+ */
+export function applyFieldRules(feature: Feature, rules: FieldRules, data: any, partial?: boolean): FieldValidationResult {
+    if (!rules) {
+        return {
+            value: turnInto(data, feature.type),
+            error: "",
+            change: "",
+        };
+    }
+
+    if (data === null || data === undefined) {
+        if (rules.default !== null && !partial) {
+            return {
+                value: rules.default,
+                error: "",
+                change: "Default value applied",
+            };
+        }
+
+        return {
+            value: null,
+            error: rules.required ? "Value is required" : "",
+            change: "",
+        };
+    }
+
+    let value: InstanceType;
+    let invalid = "";
+    let clamped: InstanceType = null;
+
+    // Values that cannot be converted are invalid, instead of being coerced
+    switch (feature.type) {
+    case "numeric":
+        value = Number(data);
+        if (typeof data === "boolean" || (typeof data === "string" && data.trim() === "") || isNaN(value)) {
+            invalid = "Not a number: " + data;
+        }
+        break;
+    case "date":
+        value = new Date(typeof data === "boolean" ? NaN : data);
+        if (isNaN(value.getTime())) {
+            invalid = "Not a date: " + data;
+        }
+        break;
+    case "logic":
+        if (typeof data === "boolean") {
+            value = data;
+        } else if (data === "true" || data === "1" || data === 1) {
+            value = true;
+        } else if (data === "false" || data === "0" || data === 0) {
+            value = false;
+        } else {
+            invalid = "Not a boolean: " + data;
+        }
+        break;
+    default:
+        value = "" + data;
+    }
+
+    if (!invalid && rules.min !== null && compareValues(value, rules.min) < 0) {
+        invalid = "Value is lower than " + formatValue(rules.min);
+        clamped = rules.min;
+    }
+
+    if (!invalid && rules.max !== null && compareValues(value, rules.max) > 0) {
+        invalid = "Value is greater than " + formatValue(rules.max);
+        clamped = rules.max;
+    }
+
+    if (!invalid && rules.maxLength >= 0 && typeof value === "string" && value.length > rules.maxLength) {
+        invalid = "Value is longer than " + rules.maxLength + " characters";
+        clamped = value.substr(0, rules.maxLength);
+    }
+
+    if (!invalid && rules.regex && !rules.regex.test(formatValue(value))) {
+        invalid = "Value does not match " + rules.regex.source;
+    }
+
+    if (!invalid && rules.enum && !rules.enum.some(v => compareValues(v, value) === 0)) {
+        invalid = "Value is not one of the allowed values";
+    }
+
+    if (!invalid) {
+        if (feature.type === "nominal" && (<string>value).length > 255) {
+            // Same limit applied by turnInto
+            return {
+                value: (<string>value).substr(0, 255),
+                error: "",
+                change: "Truncated to 255 characters",
+            };
+        }
+
+        return {
+            value: value,
+            error: "",
+            change: "",
+        };
+    }
+
+    if (rules.onInvalid === "clamp" && clamped !== null) {
+        return {
+            value: clamped,
+            error: "",
+            change: invalid + ", clamped",
+        };
+    }
+
+    if (rules.onInvalid !== "reject" && !rules.required) {
+        return {
+            value: null,
+            error: "",
+            change: invalid + ", set to null",
+        };
+    }
+
+    return {
+        value: null,
+        error: invalid,
+        change: "",
+    };
+}
+
+function formatValue(value: InstanceType): string {
+    return value instanceof Date ? value.toISOString() : ("" + value);
+}